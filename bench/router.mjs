@@ -0,0 +1,109 @@
+/**
+ * Compares the "express" and "radix" router modes on a generated tree of
+ * 1,000 route files.
+ *
+ * Usage: npm run bench
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import http from 'node:http';
+import { createApp } from '../dist/index.js';
+
+const RESOURCES = 250; // 4 route files per resource
+const REQUESTS = 20000;
+const CONCURRENCY = 32;
+
+function generateTree() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'fastay-bench-'));
+  fs.writeFileSync(path.join(root, 'package.json'), '{"type":"module"}');
+
+  const handler = 'export const GET = (req) => ({ body: req.params });\n';
+  const write = (dir) => {
+    fs.mkdirSync(path.join(root, dir), { recursive: true });
+    fs.writeFileSync(path.join(root, dir, 'route.js'), handler);
+  };
+
+  for (let i = 0; i < RESOURCES; i++) {
+    write(`res${i}`);
+    write(`res${i}/static`);
+    write(`res${i}/[id]`);
+    write(`res${i}/[id]/items/[itemId]`);
+  }
+
+  return root;
+}
+
+function samplePaths() {
+  const paths = [];
+  for (let i = 0; i < REQUESTS; i++) {
+    const r = (i * 7919) % RESOURCES;
+    switch (i % 4) {
+      case 0: paths.push(`/api/res${r}`); break;
+      case 1: paths.push(`/api/res${r}/static`); break;
+      case 2: paths.push(`/api/res${r}/${i}`); break;
+      default: paths.push(`/api/res${r}/${i}/items/${i + 1}`);
+    }
+  }
+  return paths;
+}
+
+async function run(mode, apiDir, paths) {
+  const { server } = await createApp({ apiDir, mode: 'test', router: mode });
+  await new Promise((resolve) => server.listen(0, resolve));
+
+  const { port } = server.address();
+  const agent = new http.Agent({ keepAlive: true, maxSockets: CONCURRENCY });
+
+  const request = (p) =>
+    new Promise((resolve, reject) => {
+      http
+        .get({ host: '127.0.0.1', port, path: p, agent }, (res) => {
+          res.resume();
+          res.on('end', () =>
+            res.statusCode === 200
+              ? resolve()
+              : reject(new Error(`${p} -> ${res.statusCode}`))
+          );
+        })
+        .on('error', reject);
+    });
+
+  let next = 0;
+  const worker = async () => {
+    while (next < paths.length) await request(paths[next++]);
+  };
+
+  // Warm-up
+  await Promise.all(paths.slice(0, 1000).map(request));
+
+  const start = performance.now();
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  const elapsed = performance.now() - start;
+
+  agent.destroy();
+  await new Promise((resolve) => server.close(resolve));
+
+  return { mode, rps: Math.round((paths.length / elapsed) * 1000), ms: elapsed };
+}
+
+const apiDir = generateTree();
+const paths = samplePaths();
+const results = [];
+
+try {
+  for (const mode of ['express', 'radix']) {
+    results.push(await run(mode, apiDir, paths));
+  }
+} finally {
+  fs.rmSync(apiDir, { recursive: true, force: true });
+}
+
+console.log(`\n${RESOURCES * 4} routes, ${REQUESTS} requests, concurrency ${CONCURRENCY}`);
+console.table(
+  results.map(({ mode, rps, ms }) => ({
+    mode,
+    'req/s': rps,
+    'total (ms)': ms.toFixed(0),
+  }))
+);
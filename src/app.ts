@@ -1,18 +1,63 @@
 import express, { Request, Response, NextFunction } from "express";
 import { createServer, Server } from "node:http";
 import path from "path";
-import { loadApiRoutes } from "./router.js";
+import {
+  loadApiRoutes,
+  createRouteLayer,
+  resolveApiDir,
+  overrideRoute,
+  overrideFolderMiddleware,
+  RouteInfo,
+  RouterMode,
+} from "./router.js";
 import {
   MiddlewareMap,
-  loadFastayMiddlewares,
+  createMiddlewareLayer,
   createMiddleware,
 } from "./middleware.js";
-import { logger } from "./logger.js";
+import { watchForChanges } from "./hot-reload.js";
+import { ValidationError } from "./validation.js";
+import { HttpError } from "./errors.js";
+import {
+  configureErrorFormat,
+  ErrorFormat,
+  errorFormat,
+  sendProblem,
+  toProblem,
+} from "./problem.js";
+import { createOpenApiRouter, OpenApiOptions } from "./openapi.js";
+import {
+  createHealth,
+  HealthOptions,
+  HealthCheck,
+  HealthCheckFn,
+} from "./health.js";
+import { writeRouteTypes } from "./typegen.js";
+import {
+  logger,
+  AppLogger,
+  createAppLogger,
+  runWithLogger,
+  isJsonLogging,
+  LoggingOptions,
+} from "./logger.js";
+import { requestLogger } from "./request-logger.js";
+import { requestContext, RequestIdOptions } from "./request-context.js";
+import { createTelemetry, TelemetryOptions } from "./telemetry.js";
+import { createMetrics, MetricsOptions } from "./metrics.js";
 import { printBanner } from "./banner.js";
 import type { ServeStaticOptions } from "serve-static";
 
 import { RequestCookies } from "./utils/cookies.js";
-import { formDataMiddleware } from "./utils/formDataMiddleware.js";
+import type { MiddlewareFn } from "./utils/wrapMiddleware.js";
+import {
+  formDataMiddleware,
+  UploadOptions,
+} from "./utils/formDataMiddleware.js";
+import { bodyReadersMiddleware, keepRawBody } from "./utils/bodyReaders.js";
+import { DEFAULT_BODY_LIMIT } from "./route-config.js";
+import { createWebSocketHub, WebSocketOptions } from "./websocket.js";
+import { closeSseStreams } from "./sse.js";
 
 /**
  * Express configuration options applied automatically by Fastay
@@ -28,6 +73,9 @@ export interface ExpressOptions {
   /**
    * Options passed to express.json().
    * Useful for customizing JSON payload limits or behavior.
+   *
+   * Replaces the default global JSON parser (10mb limit); see
+   * `CreateAppOptions.jsonParsing`.
    */
   jsonOptions?: Parameters<typeof express.json>[0];
 
@@ -82,6 +130,50 @@ export interface ExpressOptions {
   locals?: Record<string, any>;
 }
 
+/**
+ * Fastay runtime information attached to the Express application as `app.fastay`.
+ */
+export interface FastayContext {
+  /**
+   * Registered routes (method, path, source file) in the order
+   * requests are matched against them.
+   */
+  routes(): RouteInfo[];
+
+  /**
+   * Serves `module` at a route pattern (e.g. "/api/users/:id") instead of
+   * its route file. Returns a function that restores the original route.
+   */
+  overrideRoute(route: string, module: Record<string, any>): () => void;
+
+  /**
+   * Replaces the `middleware.ts` stack of a folder relative to `apiDir`
+   * ("" for the root). Returns a function that restores the original stack.
+   */
+  overrideMiddleware(
+    folder: string,
+    middleware: MiddlewareFn | MiddlewareFn[]
+  ): () => void;
+
+  /**
+   * Registers cleanup for `close()`, run after in-flight requests are
+   * drained. Cleanups run in reverse registration order.
+   */
+  onClose(cleanup: () => void | Promise<void>): void;
+
+  /** Registers a named readiness check (database, cache, downstream API...). */
+  healthCheck(name: string, check: HealthCheckFn | HealthCheck): void;
+
+  /**
+   * Sends `data` (non-strings as JSON) to the WebSocket connections
+   * subscribed to `topic`. Returns the number of connections reached.
+   */
+  publish(topic: string, data: unknown): number;
+}
+
+/** The Express application returned by `createApp`. */
+export type FastayApp = express.Express & { fastay: FastayContext };
+
 /**
  * Options applied when creating a Fastay.js application.
  */
@@ -100,10 +192,106 @@ export type CreateAppOptions = {
 
   /**
    * Application mode
+   * In "dev", route files and `src/middlewares/middleware.ts` are watched
+   * and reloaded on change without restarting the process, and route param
+   * types are written to `.fastay/types.d.ts`.
    * Default: "dev"
    */
   mode?: "dev" | "prod" | "test";
 
+  /**
+   * Route matching strategy.
+   * - "express": one Express Router per route file.
+   * - "radix": all handlers in a single find-my-way radix tree,
+   *   faster for large route trees.
+   * Default: "express"
+   */
+  router?: RouterMode;
+
+  /**
+   * Serves an OpenAPI 3.1 document generated from the route tree
+   * (at "/openapi.json"), and a docs page when `docsPath` is set.
+   * Pass `true` for the defaults.
+   * Default: disabled
+   */
+  openapi?: boolean | OpenApiOptions;
+
+  /**
+   * Liveness and readiness probes ("/health", "/health/live",
+   * "/health/ready") with optional named checks. `/health` keeps its
+   * `{"ok":true}` liveness answer; `/ready` answers 503 while booting,
+   * shutting down or failing a critical check. Pass `false` to disable.
+   * Default: enabled with no checks
+   */
+  health?: boolean | HealthOptions;
+
+  /**
+   * Log format ("pretty" or "json"), level, access log and redaction.
+   * Each request gets a `req.log` child logger either way.
+   * Default: { format: "pretty", level: "info", accessLog: true }
+   */
+  logging?: LoggingOptions;
+
+  /**
+   * How request ids are read from `X-Request-Id`/`traceparent` or
+   * generated. The id is sent back in `X-Request-Id`, bound to `req.log`,
+   * included in error responses and available via `getRequestContext()`.
+   */
+  requestId?: RequestIdOptions;
+
+  /**
+   * Body format of error responses (error handlers, validation failures,
+   * 404). "problem+json" sends RFC 9457 problem details as
+   * `application/problem+json`.
+   * Default: "json"
+   */
+  errorFormat?: ErrorFormat;
+
+  /**
+   * Where JSON bodies are parsed:
+   * - "global": before any middleware, so global middleware sees
+   *   `req.body`. A route's `bodyLimit` can only lower the global limit
+   *   (10mb, or `expressOptions.jsonOptions.limit`).
+   * - "route": once the route has matched, with the route's `bodyLimit`,
+   *   which can then also raise the limit. `req.body` is undefined in
+   *   global middleware (`middlewares`, `src/middlewares/middleware.ts`,
+   *   `expressOptions.middlewares`) and set from folder middleware on.
+   * Default: "global"
+   */
+  jsonParsing?: "global" | "route";
+
+  /**
+   * `req.formData()` limits (file size, file count, field count, total
+   * size; exceeding one is a 413), storage ("memory", "disk" or a custom
+   * sink), streaming mode and allowed file types. Routes can override
+   * them with their `uploads` config.
+   * Default: in-memory storage; 10 MiB per file, 10 files, 50 MiB per request
+   */
+  uploads?: UploadOptions;
+
+  /**
+   * Message size limit and ping interval of WebSocket routes (`WS`
+   * exports). A `WS` handler can override both.
+   * Default: 1 MiB messages, a ping every 30s
+   */
+  websocket?: WebSocketOptions;
+
+  /**
+   * OpenTelemetry spans (one server span per request, named after the
+   * route pattern, with middleware and handler child spans) and request
+   * duration/in-flight metrics. Requires `@opentelemetry/api`.
+   * Default: disabled
+   */
+  telemetry?: boolean | TelemetryOptions;
+
+  /**
+   * Prometheus metrics (request count, latency, response size, Node
+   * process metrics) served at "/metrics", optionally behind a token or
+   * on a separate port.
+   * Default: disabled
+   */
+  metrics?: boolean | MetricsOptions;
+
   /**
    * Configuration to enable CORS (Cross-Origin Resource Sharing) in Fastay.
    */
@@ -168,6 +356,43 @@ export type CreateAppOptions = {
    */
   middlewares?: MiddlewareMap;
 
+  /**
+   * Called once routes are loaded and the server is listening
+   * (right after boot in "test" mode).
+   */
+  onReady?: (app: FastayApp, server: Server) => void | Promise<void>;
+
+  /**
+   * Called on every request before any middleware. A rejection is passed
+   * to the error handler.
+   */
+  onRequest?: (req: Request, res: Response) => void | Promise<void>;
+
+  /**
+   * Cleanup run by `close()` after in-flight requests are drained,
+   * e.g. closing database pools. See also `app.fastay.onClose()`.
+   */
+  onClose?: () => void | Promise<void>;
+
+  /**
+   * Graceful shutdown settings used by `close()`.
+   */
+  shutdown?: {
+    /**
+     * Time in milliseconds in-flight requests get to finish before their
+     * connections are closed.
+     * Default: 10000
+     */
+    timeout?: number;
+
+    /**
+     * Calls `close()` and exits when one of these signals is received.
+     * `true` means ["SIGTERM", "SIGINT"].
+     * Default: false
+     */
+    signals?: boolean | NodeJS.Signals[];
+  };
+
   /**
    * Controls the display of the X-Powered-By header in HTTP responses.
    *
@@ -182,10 +407,11 @@ export type CreateAppOptions = {
  * Fastay automatically:
  * - Discovers and registers routes defined in `apiDir`.
  * - Applies both built-in and user-provided middlewares.
- * - Exposes a health-check endpoint at `/_health`.
+ * - Exposes liveness and readiness probes at `/health/live` and `/health/ready`.
  *
  * @param opts - Configuration options for the Fastay application.
- * @returns A Promise that resolves to an Express `Application` instance.
+ * @returns A Promise that resolves to `{ app, server, close }` once routes
+ *   are loaded and the server is listening.
  *
  * @example
  * ```ts
@@ -206,6 +432,20 @@ export type CreateAppOptions = {
  * ```
  */
 
+/** Body parser options that also keep the raw body for `req.text()`. */
+function withRawBody<T extends { verify?: (...args: any[]) => void }>(
+  options: T = {} as T
+): T {
+  const { verify } = options;
+  return {
+    ...options,
+    verify: (req: any, res: any, buf: Buffer, encoding: string) => {
+      keepRawBody(req, res, buf);
+      verify?.(req, res, buf, encoding);
+    },
+  };
+}
+
 /** pre-compiled CORS */
 function createCorsHandler(opts?: CreateAppOptions["enableCors"]) {
   if (!opts) return null;
@@ -263,6 +503,12 @@ function createCorsHandler(opts?: CreateAppOptions["enableCors"]) {
 }
 
 export async function createApp(opts?: CreateAppOptions) {
+  // Boot, requests and shutdown log through the app's own logger
+  const appLogger = createAppLogger(opts?.logging);
+  return runWithLogger(appLogger, () => bootApp(appLogger, opts));
+}
+
+async function bootApp(appLogger: AppLogger, opts?: CreateAppOptions) {
   const start = logger.timeStart();
 
   printBanner();
@@ -278,8 +524,96 @@ export async function createApp(opts?: CreateAppOptions) {
   logger.success(`API directory: ${apiDir}`);
   logger.success(`Base route: ${baseRoute}`);
 
-  const app = express();
+  const routeLayer = createRouteLayer(opts?.router);
+  const health = createHealth(
+    typeof opts?.health === "object" ? opts.health : {}
+  );
+  const cleanups: (() => void | Promise<void>)[] = [];
+  if (opts?.onClose) cleanups.push(opts.onClose);
+  const websockets = createWebSocketHub(opts?.websocket);
+
+  const app: FastayApp = Object.assign(express(), {
+    fastay: {
+      routes: () => routeLayer.routes(),
+      overrideRoute: (route, module) =>
+        overrideRoute(routeLayer, resolveApiDir(apiDir), route, module),
+      overrideMiddleware: (folder, middleware) =>
+        overrideFolderMiddleware(
+          routeLayer,
+          resolveApiDir(apiDir),
+          folder,
+          middleware
+        ),
+      onClose: (cleanup) => void cleanups.push(cleanup),
+      healthCheck: (name, check) => health.register(name, check),
+      publish: (topic, data) => websockets.publish(topic, data),
+    } as FastayContext,
+  });
+  configureErrorFormat(app, opts?.errorFormat);
+  app.use((_req: Request, _res: Response, next: NextFunction) =>
+    runWithLogger(appLogger, next)
+  );
   const server: Server = createServer(app);
+  let closing: Promise<void> | undefined;
+
+  // Upgrades under the base route are dispatched to `WS` route exports;
+  // others are left to any other "upgrade" listener
+  server.on("upgrade", (req, socket, head) => {
+    const pathname = (req.url ?? "/").split("?")[0];
+    const ours =
+      baseRoute === "/" ||
+      pathname === baseRoute ||
+      pathname.startsWith(`${baseRoute}/`);
+
+    if (closing || (!ours && server.listenerCount("upgrade") === 1)) {
+      socket.destroy();
+    } else if (ours) {
+      websockets.upgrade(app, req, socket, head);
+    }
+  });
+
+  app.use(requestContext(opts?.requestId));
+  if (opts?.telemetry) {
+    const telemetry = opts.telemetry === true ? {} : opts.telemetry;
+    app.use(await createTelemetry(telemetry));
+  }
+
+  const metricsOptions = opts?.metrics === true ? {} : opts?.metrics || null;
+  const metrics = metricsOptions && createMetrics(metricsOptions);
+  if (metrics) {
+    // Scrapes on the app's own port are not recorded themselves
+    if (metricsOptions?.port === undefined) app.use(metrics.router);
+    app.use(metrics.middleware);
+    cleanups.push(() => metrics.close());
+  }
+  app.use(requestLogger({ accessLog: opts?.logging?.accessLog }));
+
+  if (opts?.onRequest) {
+    const onRequest = opts.onRequest;
+    app.use((req: Request, res: Response, next: NextFunction) => {
+      Promise.resolve(onRequest(req, res)).then(() => next(), next);
+    });
+  }
+
+  // Keep-alive connections are not reused once shutdown begins
+  app.use((_req: Request, res: Response, next: NextFunction) => {
+    if (closing) res.setHeader("Connection", "close");
+    res.once("finish", () => {
+      if (closing) setImmediate(() => server.closeIdleConnections());
+    });
+    next();
+  });
+
+  // Health probes are answered before user middleware (auth, rate limits...)
+  if (opts?.health !== false) {
+    app.use(health.router);
+  }
+
+  // JSON bodies are parsed before any middleware, unless routes parse them
+  // (`jsonParsing: "route"`) or `jsonOptions` installs its own parser below
+  if (opts?.jsonParsing !== "route" && !opts?.expressOptions?.jsonOptions) {
+    app.use(express.json({ limit: DEFAULT_BODY_LIMIT, verify: keepRawBody }));
+  }
 
   if (opts?.expressOptions) {
     for (const [key, value] of Object.entries(opts.expressOptions)) {
@@ -294,21 +628,13 @@ export async function createApp(opts?: CreateAppOptions) {
         const v = value as { path: string; options?: any };
         app.use(express.static(v.path, v.options));
       } else if (key === "jsonOptions") {
-        app.use(express.json(value as any));
+        app.use(express.json(withRawBody(value as any)));
       } else if (key === "urlencodedOptions") {
-        app.use(express.urlencoded(value as any));
+        app.use(express.urlencoded(withRawBody(value as any)));
       }
     }
   }
 
-  if (mode == "dev" || mode == "prod") {
-    server.listen(port, () => {
-      logger.success(`Server running at http://localhost:${port}${baseRoute}`);
-    });
-  } else {
-    logger.info("Test mode: server.listen skipped");
-  }
-
   // CORS handler
   const corsHandler = createCorsHandler(opts?.enableCors);
   if (corsHandler) {
@@ -316,7 +642,8 @@ export async function createApp(opts?: CreateAppOptions) {
   }
 
   // FormData middleware
-  app.use(formDataMiddleware());
+  app.use(formDataMiddleware(opts?.uploads));
+  app.use(bodyReadersMiddleware({ limit: DEFAULT_BODY_LIMIT }));
 
   // Fastay middlewares
   if (opts?.middlewares) {
@@ -326,13 +653,17 @@ export async function createApp(opts?: CreateAppOptions) {
   }
 
   // Auto middlewares
-  await loadFastayMiddlewares(app);
-
-  // Health check
-  app.get("/health", (_, res) => {
-    res.setHeader("Content-Type", "application/json");
-    res.send('{"ok":true}');
-  });
+  const middlewareLayer = createMiddlewareLayer();
+  app.use(middlewareLayer.handle);
+  await middlewareLayer.load();
+
+  // OpenAPI document and docs page
+  if (opts?.openapi) {
+    const openapi = opts.openapi === true ? {} : opts.openapi;
+    app.use(createOpenApiRouter(routeLayer, openapi));
+    logger.success(`OpenAPI document: ${openapi.path ?? "/openapi.json"}`);
+    if (openapi.docsPath) logger.success(`API docs: ${openapi.docsPath}`);
+  }
 
   // External middlewares
   if (opts?.expressOptions?.middlewares) {
@@ -343,10 +674,6 @@ export async function createApp(opts?: CreateAppOptions) {
     }
   }
 
-  if (!opts?.expressOptions?.jsonOptions) {
-    app.use(express.json({ limit: "10mb" }));
-  }
-
   app.use((req: Request, res: Response, next: NextFunction) => {
     res.setHeader("X-Powered-By", "Syntay Engine");
     (req as any).cookies = new RequestCookies(req.headers.cookie);
@@ -400,13 +727,35 @@ export async function createApp(opts?: CreateAppOptions) {
     opts?.powered && res.setHeader("X-Powered-By", "Syntay Engine");
 
     // Optimized cookie parsing
-    (req as any).cookies = new RequestCookies(req.headers.cookie);
+    const cookies = new RequestCookies(req.headers.cookie);
+    (req as any).cookies = cookies;
+
+    // Cookies set through `req.cookies.set()` are sent with the headers
+    const writeHead = res.writeHead;
+    res.writeHead = function (this: Response, ...args: any[]) {
+      cookies.applyToResponse(this);
+      return (writeHead as Function).apply(this, args);
+    } as typeof res.writeHead;
 
     next();
   });
 
   // Route loading
-  const totalRoutes = await loadApiRoutes(app, baseRoute, apiDir);
+  app.use(routeLayer.handle);
+  const totalRoutes = await loadApiRoutes(app, baseRoute, apiDir, routeLayer);
+
+  if (mode === "dev") {
+    const types = writeRouteTypes(resolveApiDir(apiDir), baseRoute);
+    logger.success(`Route types: ${path.relative(process.cwd(), types.file)}`);
+
+    const watcher = watchForChanges({
+      apiDir: resolveApiDir(apiDir),
+      baseRoute,
+      routes: routeLayer,
+      middlewares: middlewareLayer,
+    });
+    server.on("close", () => void watcher.close());
+  }
 
   // The error handler should come after the routes.
   if (opts?.expressOptions?.errorHandler) {
@@ -414,11 +763,77 @@ export async function createApp(opts?: CreateAppOptions) {
   } else {
     // Optimized default error handler
     app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-      logger.error(
-        `Unhandled Error [${req.method} ${req.path}]: ${err.message}`
-      );
+      // Client errors raised by body parsers (e.g. 413 over `bodyLimit`)
+      const { status, expose } = err as Error & {
+        status?: number;
+        expose?: boolean;
+      };
+      const clientError =
+        err instanceof HttpError
+          ? err.status < 500
+          : !!expose && !!status && status >= 400 && status < 500;
+
+      if (!clientError) {
+        if (isJsonLogging()) {
+          req.log.error({ err }, "Unhandled error");
+        } else {
+          logger.error(
+            `Unhandled Error [${req.method} ${req.path}]: ${err.message}`
+          );
+        }
+      }
+
+      if (errorFormat(req) === "problem+json") {
+        if (err instanceof HttpError) res.set(err.headers);
+        const problem = toProblem(
+          req,
+          clientError || err instanceof HttpError ? status! : 500,
+          err
+        );
+        if (!clientError && process.env.NODE_ENV === "development") {
+          problem.detail ??= err.message;
+        }
+        sendProblem(res, problem);
+        return;
+      }
+
+      if (err instanceof ValidationError) {
+        res.status(422).json({
+          error: err.message,
+          details: err.issues,
+          requestId: req.id,
+        });
+        return;
+      }
+
+      if (err instanceof HttpError && err.status < 500) {
+        res.set(err.headers);
+        res.status(err.status).json({
+          ...err.toJSON(),
+          path: req.originalUrl,
+          requestId: req.id,
+        });
+        return;
+      }
+
+      if (expose && status && status >= 400 && status < 500) {
+        res.status(status).json({
+          error: err.message,
+          path: req.originalUrl,
+          requestId: req.id,
+        });
+        return;
+      }
+
+      if (err instanceof HttpError) {
+        res.set(err.headers);
+        res.status(err.status).json({ ...err.toJSON(), requestId: req.id });
+        return;
+      }
+
       res.status(500).json({
         error: "Internal Server Error",
+        requestId: req.id,
         ...(process.env.NODE_ENV === "development" && { detail: err.message }),
       });
     });
@@ -430,9 +845,14 @@ export async function createApp(opts?: CreateAppOptions) {
 
   // 404 handler
   app.use((req: Request, res: Response) => {
+    if (errorFormat(req) === "problem+json") {
+      sendProblem(res, toProblem(req, 404));
+      return;
+    }
     res.status(404).json({
       error: "Not Found",
       path: req.originalUrl,
+      requestId: req.id,
     });
   });
 
@@ -443,10 +863,98 @@ export async function createApp(opts?: CreateAppOptions) {
   logger.success(`Total routes loaded: ${totalRoutes}`);
   logger.success(`Boot completed in ${time}ms`);
 
+  // Listen only once routes are registered so early requests don't 404
+  if (mode == "dev" || mode == "prod") {
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    logger.success(`Server running at http://localhost:${port}${baseRoute}`);
+
+    if (await metrics?.listen()) {
+      const { port, path = "/metrics" } = metricsOptions!;
+      logger.success(`Metrics: http://localhost:${port}${path}`);
+    }
+  } else {
+    logger.info("Test mode: server.listen skipped");
+  }
+
+  /**
+   * Stops accepting connections, waits for in-flight requests (up to
+   * `shutdown.timeout`), then runs the registered cleanups.
+   * Safe to call more than once.
+   */
+  const close = () =>
+    runWithLogger(appLogger, () => {
+      if (!closing) {
+        health.setState("stopping");
+        // Open WebSockets and event streams would otherwise hold
+        // `server.close()` until timeout
+        websockets.close();
+        closeSseStreams(app);
+        closing = shutdown(server, cleanups, opts?.shutdown?.timeout ?? 10000);
+      }
+      return closing;
+    });
+
+  const signals = opts?.shutdown?.signals;
+  if (signals) {
+    const onSignal = (signal: NodeJS.Signals) => {
+      runWithLogger(appLogger, () =>
+        logger.info(`${signal} received, shutting down...`)
+      );
+      close().then(
+        () => process.exit(0),
+        () => process.exit(1)
+      );
+    };
+
+    for (const signal of signals === true ? ["SIGTERM", "SIGINT"] : signals) {
+      process.once(signal as NodeJS.Signals, onSignal);
+    }
+  }
+
+  health.setState("ready");
+  await opts?.onReady?.(app, server);
+
   if (process.env.NODE_ENV === "development") {
     const used = process.memoryUsage();
     // logger.info(`Memory: ${Math.round(used.heapUsed / 1024 / 1024)}MB`);
   }
 
-  return { app, server };
+  return { app, server, close };
+}
+
+async function shutdown(
+  server: Server,
+  cleanups: (() => void | Promise<void>)[],
+  timeout: number
+) {
+  if (server.listening) {
+    const closed = new Promise<void>((resolve) =>
+      server.close(() => resolve())
+    );
+    server.closeIdleConnections();
+
+    const timer = setTimeout(() => {
+      logger.warn(`Shutdown timeout (${timeout}ms): closing open connections`);
+      server.closeAllConnections();
+    }, timeout);
+
+    await closed;
+    clearTimeout(timer);
+  }
+
+  for (const cleanup of [...cleanups].reverse()) {
+    try {
+      await cleanup();
+    } catch (err) {
+      logger.error(`Cleanup failed: ${(err as Error).message}`);
+    }
+  }
+
+  logger.success("Server closed");
 }
@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'node:util';
+import { logger } from './logger.js';
+import {
+  createRouteLayer,
+  loadRoutes,
+  resolveApiDir,
+  RouteLayer,
+} from './router.js';
+import { generateOpenApi, OpenApiOptions } from './openapi.js';
+import { writeRouteTypes, ROUTE_TYPES_FILE } from './typegen.js';
+import { generateClient } from './client-gen.js';
+import type { CreateAppOptions } from './app.js';
+
+/**
+ * Fastay CLI.
+ *
+ * Route modules are imported as-is, so run it where they can be loaded:
+ * after a build (`NODE_ENV=production`, reads `dist/api`) or through a
+ * TypeScript loader, e.g. `node --import tsx node_modules/.bin/fastay`.
+ *
+ * Options default to `fastay.config.{js,mjs,ts}` in the working directory,
+ * whose default export is a `CreateAppOptions` object.
+ */
+
+const CONFIG_FILES = [
+  'fastay.config.js',
+  'fastay.config.mjs',
+  'fastay.config.ts',
+];
+
+const HELP = `Usage: fastay <command> [options]
+
+Commands:
+  openapi     Write the OpenAPI 3.1 document of the api directory
+  types       Write route param types (default: ${ROUTE_TYPES_FILE})
+  generate client
+              Write a typed fetch client (default: .fastay/client.ts)
+
+Common options:
+  --api-dir <dir>      API directory (default: config or "src/api")
+  --base-route <path>  Base route (default: config or "/api")
+  --out <file>         Output file
+  --help               Show this message
+`;
+
+async function loadConfig(): Promise<CreateAppOptions> {
+  for (const name of CONFIG_FILES) {
+    const file = path.resolve(process.cwd(), name);
+    if (!fs.existsSync(file)) continue;
+
+    const mod = await import(pathToFileURL(file).href);
+    return (mod.default ?? {}) as CreateAppOptions;
+  }
+
+  return {};
+}
+
+/** Loads the route tree the same way `createApp` does. */
+async function loadRouteTree(
+  config: CreateAppOptions,
+  values: Record<string, string | boolean | undefined>
+): Promise<{ layer: RouteLayer; apiDir: string; baseRoute: string }> {
+  const apiDir = (values['api-dir'] as string) ?? config.apiDir ?? 'src/api';
+  const baseRoute =
+    (values['base-route'] as string) ?? config.baseRoute ?? '/api';
+
+  const layer = createRouteLayer();
+  await loadRoutes(layer, baseRoute, apiDir);
+
+  return { layer, apiDir, baseRoute };
+}
+
+function writeOutput(file: string, content: string) {
+  const target = path.resolve(process.cwd(), file);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, content);
+  logger.success(`Written: ${path.relative(process.cwd(), target)}`);
+}
+
+async function openapiCommand(
+  config: CreateAppOptions,
+  values: Record<string, string | boolean | undefined>
+) {
+  const { layer } = await loadRouteTree(config, values);
+  const options: OpenApiOptions =
+    typeof config.openapi === 'object' ? config.openapi : {};
+
+  const document = generateOpenApi(layer.definitions(), options);
+  writeOutput(
+    (values.out as string) ?? 'openapi.json',
+    JSON.stringify(document, null, 2) + '\n'
+  );
+}
+
+async function typesCommand(
+  config: CreateAppOptions,
+  values: Record<string, string | boolean | undefined>
+) {
+  const apiDir = (values['api-dir'] as string) ?? config.apiDir ?? 'src/api';
+  const baseRoute =
+    (values['base-route'] as string) ?? config.baseRoute ?? '/api';
+
+  const { file, routes } = writeRouteTypes(
+    resolveApiDir(apiDir),
+    baseRoute,
+    values.out as string | undefined
+  );
+  logger.success(
+    `Written: ${path.relative(process.cwd(), file)} (${routes} routes)`
+  );
+}
+
+async function generateClientCommand(
+  config: CreateAppOptions,
+  values: Record<string, string | boolean | undefined>
+) {
+  const { layer, baseRoute } = await loadRouteTree(config, values);
+  const outFile = path.resolve(
+    process.cwd(),
+    (values.out as string) ?? '.fastay/client.ts'
+  );
+
+  const options: OpenApiOptions =
+    typeof config.openapi === 'object' ? config.openapi : {};
+
+  writeOutput(outFile, generateClient(layer.definitions(), baseRoute, options));
+}
+
+const commands: Record<
+  string,
+  (
+    config: CreateAppOptions,
+    values: Record<string, string | boolean | undefined>
+  ) => Promise<void>
+> = {
+  openapi: openapiCommand,
+  types: typesCommand,
+  'generate client': generateClientCommand,
+};
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'api-dir': { type: 'string' },
+      'base-route': { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  const command = commands[positionals.join(' ')];
+  if (values.help || !command) {
+    process.stdout.write(HELP);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  await command(await loadConfig(), values);
+}
+
+main().then(
+  // Route modules may keep handles open (DB pools, timers).
+  () => process.exit(0),
+  (error) => {
+    logger.error((error as Error).message);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,364 @@
+import type { RouteDefinition, HttpMethod } from './router.js';
+import type { ResponseDefinition } from './validation.js';
+import type { StandardSchemaV1 } from './types/standard-schema.js';
+import { routeParamsType } from './typegen.js';
+import {
+  JsonSchema,
+  OpenApiOptions,
+  resolveMeta,
+  schemaToJson,
+} from './openapi.js';
+
+/**
+ * Typed fetch client generation.
+ *
+ * The client is self-contained, so it compiles in a separate frontend
+ * package: request and response types are emitted from the route schemas
+ * (`defineHandler({ schema, response })`), converted through JSON Schema
+ * the same way as the OpenAPI document. Parts without a schema are typed
+ * `unknown`.
+ *
+ * Function names are derived from the method and route, or taken from
+ * `meta.operationId`. Two operations resolving to the same name fail the
+ * generation.
+ */
+
+/**
+ * `get` + `/api/users/:id/posts` → `getUsersByIdPosts`;
+ * catch-alls get a `Path` suffix: `/api/docs/*slug` → `getDocsBySlugPath`.
+ */
+export function clientFunctionName(
+  method: HttpMethod,
+  route: string,
+  baseRoute: string
+): string {
+  const rel = route.startsWith(baseRoute)
+    ? route.slice(baseRoute.length)
+    : route;
+  const pascal = (s: string) =>
+    s
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map((w) => w[0].toUpperCase() + w.slice(1))
+      .join('');
+
+  const parts = rel
+    .replace('{/*', '/*')
+    .split('/')
+    .filter((s) => s && s !== '}')
+    .map((segment) =>
+      segment.startsWith(':')
+        ? `By${pascal(segment.slice(1))}`
+        : segment.startsWith('*')
+          ? `By${pascal(segment.slice(1).replace(/\}$/, ''))}Path`
+          : pascal(segment)
+    );
+
+  return method.toLowerCase() + (parts.join('') || 'Index');
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const propertyKey = (key: string) =>
+  IDENTIFIER.test(key) ? key : JSON.stringify(key);
+
+const union = (types: string[]) => [...new Set(types)].join(' | ') || 'never';
+
+// Unions and intersections need parentheses before `[]`
+const arrayOf = (type: string) =>
+  /^[\w$."]+$/.test(type) || type.startsWith('{') ? `${type}[]` : `(${type})[]`;
+
+/** TypeScript type of a JSON Schema, on one line. */
+export function jsonSchemaToTs(
+  schema: JsonSchema | boolean | undefined
+): string {
+  if (schema === undefined || schema === true) return 'unknown';
+  if (schema === false) return 'never';
+
+  if ('const' in schema) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) {
+    return union(schema.enum.map((value: unknown) => JSON.stringify(value)));
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(variants)) return union(variants.map(jsonSchemaToTs));
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf
+      .map((part: JsonSchema) => `(${jsonSchemaToTs(part)})`)
+      .join(' & ');
+  }
+
+  const types: string[] = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+      ? [schema.type]
+      : schema.properties
+        ? ['object']
+        : [];
+  if (!types.length) return 'unknown';
+
+  const result = union(types.map((type) => typeOf(type, schema)));
+  // OpenAPI 3.0 style
+  return schema.nullable ? union([result, 'null']) : result;
+}
+
+function typeOf(type: string, schema: JsonSchema): string {
+  switch (type) {
+    case 'string':
+    case 'boolean':
+    case 'null':
+      return type;
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'array':
+      if (Array.isArray(schema.prefixItems)) {
+        return `[${schema.prefixItems.map(jsonSchemaToTs).join(', ')}]`;
+      }
+      return arrayOf(jsonSchemaToTs(schema.items));
+    case 'object': {
+      const required = new Set<string>(schema.required ?? []);
+      const fields = Object.entries(
+        (schema.properties ?? {}) as Record<string, JsonSchema>
+      ).map(
+        ([key, property]) =>
+          `${propertyKey(key)}${required.has(key) ? '' : '?'}: ${jsonSchemaToTs(property)}`
+      );
+
+      const extra = schema.additionalProperties;
+      if (extra !== undefined && extra !== false) {
+        fields.push(`[key: string]: ${jsonSchemaToTs(extra)}`);
+      } else if (!fields.length && extra === undefined) {
+        return 'Record<string, unknown>';
+      }
+      return fields.length
+        ? `{ ${fields.join('; ')} }`
+        : 'Record<string, never>';
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+/** Type of the 2xx response bodies declared for an operation. */
+function responseType(
+  responses: Record<number, StandardSchemaV1 | ResponseDefinition>,
+  options: OpenApiOptions
+): string {
+  const types = Object.entries(responses)
+    .filter(([status]) => Number(status) >= 200 && Number(status) < 300)
+    .map(([, declared]) =>
+      jsonSchemaToTs(
+        schemaToJson(
+          '~standard' in declared
+            ? (declared as StandardSchemaV1)
+            : (declared as ResponseDefinition).schema,
+          'output',
+          options
+        )
+      )
+    );
+
+  return types.length ? union(types) : 'unknown';
+}
+
+const RUNTIME = `export interface ClientOptions {
+  /** Origin the API is served from. Default: "" (same origin) */
+  baseUrl?: string;
+  /** Custom fetch implementation. Default: globalThis.fetch */
+  fetch?: typeof fetch;
+  /** Headers sent with every request. */
+  headers?: HeadersInit;
+}
+
+export interface RequestOptions extends Omit<RequestInit, 'body' | 'method'> {
+  query?: Record<string, string | number | boolean | (string | number | boolean)[] | undefined>;
+}
+
+/** Thrown for non-2xx responses, with the parsed response body. */
+export class FastayClientError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: unknown
+  ) {
+    super(\`Request failed with status \${status}\`);
+    this.name = 'FastayClientError';
+  }
+}
+
+function buildPath(route: string, params: Record<string, unknown> = {}): string {
+  return route
+    .replace(/\\{\\/\\*([^}]+)\\}/g, (_, name) => {
+      const value = params[name] as string[] | undefined;
+      return value?.length ? '/' + value.map(encodeURIComponent).join('/') : '';
+    })
+    .replace(/\\*([^/{}]+)/g, (_, name) =>
+      (params[name] as string[]).map(encodeURIComponent).join('/')
+    )
+    .replace(/:([^/{}]+)/g, (_, name) => encodeURIComponent(String(params[name])));
+}
+
+function buildQuery(query: RequestOptions['query']): string {
+  if (!query) return '';
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      search.append(key, String(item));
+    }
+  }
+
+  const result = search.toString();
+  return result ? \`?\${result}\` : '';
+}
+
+function createRequest(options: ClientOptions) {
+  const fetchFn = options.fetch ?? globalThis.fetch;
+
+  return async (
+    method: string,
+    route: string,
+    input: { params?: object; body?: unknown } = {},
+    init: RequestOptions = {}
+  ): Promise<any> => {
+    const { query, headers, ...rest } = init;
+    const url =
+      (options.baseUrl ?? '') +
+      buildPath(route, input.params as Record<string, unknown>) +
+      buildQuery(query);
+
+    const response = await fetchFn(url, {
+      ...rest,
+      method,
+      headers: {
+        ...(input.body !== undefined && { 'content-type': 'application/json' }),
+        ...Object.fromEntries(new Headers(options.headers)),
+        ...Object.fromEntries(new Headers(headers)),
+      },
+      body: input.body !== undefined ? JSON.stringify(input.body) : undefined,
+    });
+
+    const type = response.headers.get('content-type') ?? '';
+    const data = type.includes('json')
+      ? await response.json()
+      : await response.text();
+
+    if (!response.ok) throw new FastayClientError(response.status, data);
+    return data;
+  };
+}
+`;
+
+/**
+ * Source of a typed client for the given route definitions.
+ *
+ * @param options - OpenAPI options of the app; `toJsonSchema` converts the
+ *   schemas whose validator has no built-in JSON Schema converter.
+ * @throws when two operations resolve to the same function name.
+ */
+export function generateClient(
+  definitions: RouteDefinition[],
+  baseRoute: string,
+  options: OpenApiOptions = {}
+): string {
+  const types: string[] = [];
+  const functions: string[] = [];
+  const owners = new Map<string, string>();
+
+  for (const definition of definitions) {
+    const routeParams = routeParamsType(definition.route);
+    const hasParams = routeParams !== '{}';
+    const seen = new Set<HttpMethod>();
+
+    for (const { method, config } of definition.methods) {
+      // `GET` and a default export both register GET; the first one serves
+      if (seen.has(method)) continue;
+      seen.add(method);
+
+      const meta = resolveMeta(definition, method, config.meta);
+      const name =
+        meta.operationId ??
+        clientFunctionName(method, definition.route, baseRoute);
+      const label = `${method} ${definition.route}`;
+
+      if (!IDENTIFIER.test(name)) {
+        const err = new Error(
+          `Invalid client function name "${name}" for ${label}`
+        );
+        err.name = 'FastayClientGenError';
+        throw err;
+      }
+
+      const owner = owners.get(name);
+      if (owner) {
+        const err = new Error(
+          [
+            `Client function "${name}" is generated for two operations:`,
+            `  - ${owner}`,
+            `  - ${label}`,
+            'Set a distinct `meta.operationId` on one of them.',
+          ].join('\n')
+        );
+        err.name = 'FastayClientGenError';
+        throw err;
+      }
+      owners.set(name, label);
+
+      const typeName = name[0].toUpperCase() + name.slice(1);
+      const schema = config.schema ?? {};
+      const hasBody = !['GET', 'HEAD', 'OPTIONS', 'DELETE'].includes(method);
+      const query = schemaToJson(schema.query, 'input', options);
+      const body = schemaToJson(schema.body, 'input', options);
+
+      types.push(
+        `/** Response of ${label} */`,
+        `export type ${typeName}Response = ${responseType(config.response ?? {}, options)};`
+      );
+      if (query?.properties) {
+        types.push(`export type ${typeName}Query = ${jsonSchemaToTs(query)};`);
+      }
+      if (hasBody) {
+        types.push(`export type ${typeName}Body = ${jsonSchemaToTs(body)};`);
+      }
+      types.push('');
+
+      const input = [
+        hasParams && `params: ${routeParams}`,
+        hasBody && `body${schema.body ? '' : '?'}: ${typeName}Body`,
+      ].filter(Boolean);
+
+      functions.push(
+        [
+          `    /** ${label} */`,
+          `    ${name}: (`,
+          input.length
+            ? `      input: { ${input.join('; ')} },`
+            : `      input: {} = {},`,
+          query?.properties
+            ? `      init?: RequestOptions & { query?: ${typeName}Query }`
+            : `      init?: RequestOptions`,
+          `    ): Promise<${typeName}Response> =>`,
+          `      request('${method}', '${definition.route}', input, init),`,
+        ].join('\n')
+      );
+    }
+  }
+
+  return [
+    '// Generated by Fastay (`fastay generate client`). Do not edit.',
+    '/* eslint-disable */',
+    '',
+    RUNTIME,
+    ...types,
+    '/** Creates a client with one function per route and method. */',
+    'export function createClient(options: ClientOptions = {}) {',
+    '  const request = createRequest(options);',
+    '',
+    '  return {',
+    functions.join('\n\n'),
+    '  };',
+    '}',
+    '',
+  ].join('\n');
+}
@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from "express";
 import { logger } from "./logger.js";
+import { ValidationError } from "./validation.js";
+import { HttpError } from "./errors.js";
+import { ErrorFormat, errorFormat, sendProblem, toProblem } from "./problem.js";
 import fs from "fs/promises";
 import path from "path";
 
@@ -147,7 +150,13 @@ export function errorHandler(
   let statusCode = 500;
   let errorMessage = "Internal Server Error";
 
-  if (error instanceof SyntaxError || error.message?.includes("Unexpected")) {
+  if (error instanceof HttpError) {
+    statusCode = error.status;
+    errorMessage = error.toJSON().error;
+  } else if (
+    error instanceof SyntaxError ||
+    error.message?.includes("Unexpected")
+  ) {
     statusCode = 400;
     errorMessage = "Invalid Request";
   } else if (error.name === "ValidationError") {
@@ -157,14 +166,37 @@ export function errorHandler(
 
   const isDev = process.env.NODE_ENV === "development";
 
+  res.setHeader("X-Error-Type", error.name);
+  res.setHeader("Cache-Control", "no-store, no-cache, must-revalidate");
+  if (error instanceof HttpError) res.set(error.headers);
+
+  if (errorFormat(req) === "problem+json") {
+    const problem = toProblem(req, statusCode, error);
+    if (isDev) {
+      problem.detail ??= error.message;
+      if (error.stack && statusCode === 500) {
+        problem.stack = error.stack.split("\n").slice(0, 3);
+      }
+      if (fileInfo) problem.location = fileInfo;
+    }
+    return sendProblem(res, problem);
+  }
+
   res.status(statusCode);
 
   const response: any = {
     error: errorMessage,
     status: statusCode,
     path: req.originalUrl,
+    requestId: req.id,
   };
 
+  if (error instanceof ValidationError) {
+    response.details = error.issues;
+  } else if (error instanceof HttpError) {
+    Object.assign(response, error.toJSON());
+  }
+
   if (isDev) {
     response.message = error.message;
     if (error.stack && statusCode === 500) {
@@ -176,9 +208,6 @@ export function errorHandler(
   }
 
   res.setHeader("Content-Type", "application/json");
-  res.setHeader("X-Error-Type", error.name);
-
-  res.setHeader("Cache-Control", "no-store, no-cache, must-revalidate");
 
   return res.json(response);
 }
@@ -190,6 +219,8 @@ export function createErrorHandler(options?: {
   logDetails?: boolean;
   includeStack?: boolean;
   customMessages?: Record<string, string>;
+  /** Default: the `errorFormat` passed to `createApp` */
+  errorFormat?: ErrorFormat;
 }) {
   const opts = {
     logDetails: process.env.NODE_ENV === "development",
@@ -208,14 +239,49 @@ export function createErrorHandler(options?: {
       logger.error(`[${route}] ${error.name}: ${error.message}`);
     }
 
+    if ((opts.errorFormat ?? errorFormat(req)) === "problem+json") {
+      const status =
+        error instanceof ValidationError || error instanceof HttpError
+          ? error.status
+          : error.name in opts.customMessages
+            ? 400
+            : 500;
+      if (error instanceof HttpError) res.set(error.headers);
+
+      const problem = toProblem(req, status, error);
+      const message = opts.customMessages[error.name];
+      if (message) problem.detail = message;
+      if (opts.includeStack) {
+        problem.detail ??= error.message;
+        if (status === 500) problem.stack = error.stack?.split("\n")[0];
+      }
+      return sendProblem(res, problem);
+    }
+
     let statusCode = 500;
-    if (error.name in opts.customMessages) {
+    if (error instanceof ValidationError) {
+      return res.status(422).json({
+        error: opts.customMessages[error.name] || error.message,
+        details: error.issues,
+        requestId: req.id,
+      });
+    } else if (error instanceof HttpError) {
+      res.set(error.headers);
+      return res.status(error.status).json({
+        ...error.toJSON(),
+        ...(opts.customMessages[error.name] && {
+          error: opts.customMessages[error.name],
+        }),
+        requestId: req.id,
+      });
+    } else if (error.name in opts.customMessages) {
       statusCode = 400;
     }
 
     // Response
     res.status(statusCode).json({
       error: opts.customMessages[error.name] || "Internal Server Error",
+      requestId: req.id,
       ...(opts.includeStack && {
         details: error.message,
         ...(statusCode === 500 && { stack: error.stack?.split("\n")[0] }),
@@ -0,0 +1,187 @@
+import { STATUS_CODES } from 'node:http';
+
+/**
+ * HTTP errors for route handlers and middleware. Throw one and the error
+ * handler answers with its status, headers and a JSON body:
+ *
+ * ```ts
+ * export async function GET(req: Request) {
+ *   const user = await db.users.find(req.params.id);
+ *   if (!user) throw new NotFound('User not found', { code: 'USER_NOT_FOUND' });
+ *   return { body: user };
+ * }
+ * ```
+ *
+ * ```json
+ * { "error": "User not found", "code": "USER_NOT_FOUND", "path": "/api/users/7" }
+ * ```
+ */
+
+export interface HttpErrorOptions {
+  /** Machine-readable code. Default: derived from the status ("NOT_FOUND"). */
+  code?: string;
+  /** Problem type URI, used with `errorFormat: "problem+json"`. */
+  type?: string;
+  /** Extra information sent in the body as `details`. */
+  details?: unknown;
+  /** Response headers, e.g. `WWW-Authenticate`. */
+  headers?: Record<string, string>;
+  /** Seconds, or a date, sent as `Retry-After`. */
+  retryAfter?: number | Date;
+  /**
+   * Whether `message` and `details` are sent to the client.
+   * Default: true below 500, false otherwise
+   */
+  expose?: boolean;
+  /** Underlying error, kept for logs. */
+  cause?: unknown;
+}
+
+export class HttpError extends Error {
+  readonly code: string;
+  readonly type?: string;
+  readonly details?: unknown;
+  readonly headers: Record<string, string>;
+  readonly expose: boolean;
+  readonly cause?: unknown;
+
+  constructor(
+    public readonly status: number,
+    message?: string,
+    options: HttpErrorOptions = {}
+  ) {
+    super(message ?? STATUS_CODES[status] ?? 'Error');
+    this.name = 'HttpError';
+    this.code = options.code ?? statusCode(status);
+    this.type = options.type;
+    this.details = options.details;
+    this.expose = options.expose ?? status < 500;
+    this.headers = { ...options.headers };
+    if (options.cause !== undefined) this.cause = options.cause;
+
+    if (options.retryAfter !== undefined) {
+      this.headers['Retry-After'] =
+        options.retryAfter instanceof Date
+          ? options.retryAfter.toUTCString()
+          : String(Math.ceil(options.retryAfter));
+    }
+  }
+
+  /** Response body; hides the message and details unless `expose`. */
+  toJSON() {
+    return {
+      error: this.expose
+        ? this.message
+        : (STATUS_CODES[this.status] ?? 'Error'),
+      code: this.code,
+      ...(this.expose &&
+        this.details !== undefined && { details: this.details }),
+    };
+  }
+}
+
+/** "Not Found" → "NOT_FOUND" */
+function statusCode(status: number) {
+  return (STATUS_CODES[status] ?? 'Error')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+export class BadRequest extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(400, message, options);
+    this.name = 'BadRequest';
+  }
+}
+
+export class Unauthorized extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(401, message, options);
+    this.name = 'Unauthorized';
+  }
+}
+
+export class Forbidden extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(403, message, options);
+    this.name = 'Forbidden';
+  }
+}
+
+export class NotFound extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(404, message, options);
+    this.name = 'NotFound';
+  }
+}
+
+export class MethodNotAllowed extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(405, message, options);
+    this.name = 'MethodNotAllowed';
+  }
+}
+
+export class Conflict extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(409, message, options);
+    this.name = 'Conflict';
+  }
+}
+
+export class Gone extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(410, message, options);
+    this.name = 'Gone';
+  }
+}
+
+export class PayloadTooLarge extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(413, message, options);
+    this.name = 'PayloadTooLarge';
+  }
+}
+
+export class UnsupportedMediaType extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(415, message, options);
+    this.name = 'UnsupportedMediaType';
+  }
+}
+
+export class UnprocessableEntity extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(422, message, options);
+    this.name = 'UnprocessableEntity';
+  }
+}
+
+export class TooManyRequests extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(429, message, options);
+    this.name = 'TooManyRequests';
+  }
+}
+
+export class InternalServerError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(500, message, options);
+    this.name = 'InternalServerError';
+  }
+}
+
+export class NotImplemented extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(501, message, options);
+    this.name = 'NotImplemented';
+  }
+}
+
+export class ServiceUnavailable extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(503, message, options);
+    this.name = 'ServiceUnavailable';
+  }
+}
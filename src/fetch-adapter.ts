@@ -0,0 +1,114 @@
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream } from 'node:stream/web';
+import { Request, Response } from 'express';
+
+/**
+ * Fetch-style route handlers, for code shared with edge runtimes. Opt in
+ * with `fetch: true` in the route config:
+ *
+ * ```ts
+ * export const config = { fetch: true };
+ *
+ * export async function GET(request: Request, { params }: FetchContext) {
+ *   const url = new URL(request.url);
+ *   return Response.json({ id: params.id, q: url.searchParams.get('q') });
+ * }
+ * ```
+ *
+ * A returned `Response` is streamed out from any handler, fetch-style or not.
+ */
+
+export interface FetchContext {
+  /**
+   * Route params, e.g. `{ id: "7" }` for "/api/users/:id"; catch-all
+   * segments are arrays.
+   */
+  params: Record<string, string | string[]>;
+}
+
+export type FetchHandler = (
+  request: globalThis.Request,
+  context: FetchContext
+) => globalThis.Response | Promise<globalThis.Response>;
+
+const BODYLESS = new Set(['GET', 'HEAD']);
+
+// Node frames the streamed body itself. `content-encoding` is kept: it
+// describes the body bytes, which are sent as they are
+const BODY_FRAMING = new Set(['content-length', 'transfer-encoding']);
+
+/**
+ * WHATWG `Request` for `req`. Its signal aborts when the client goes away
+ * before the response is sent.
+ */
+export async function toFetchRequest(
+  req: Request,
+  res: Response
+): Promise<globalThis.Request> {
+  const headers = new Headers();
+  for (let i = 0; i < req.rawHeaders.length; i += 2) {
+    // HTTP/2 pseudo-headers are not valid header names
+    if (req.rawHeaders[i].startsWith(':')) continue;
+    headers.append(req.rawHeaders[i], req.rawHeaders[i + 1]);
+  }
+
+  const controller = new AbortController();
+  res.once('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const init: RequestInit & { duplex?: 'half' } = {
+    method: req.method,
+    headers,
+    signal: controller.signal,
+  };
+
+  if (!BODYLESS.has(req.method)) {
+    const consumed = (req as any)._body || req.readableDidRead;
+    if (consumed) {
+      // Already read by a body parser; replay the raw bytes
+      init.body = await req.arrayBuffer();
+    } else {
+      init.body = Readable.toWeb(req) as globalThis.ReadableStream;
+      init.duplex = 'half';
+    }
+  }
+
+  return new globalThis.Request(
+    `${req.protocol}://${req.get('host') ?? 'localhost'}${req.originalUrl}`,
+    init
+  );
+}
+
+/** Sends a WHATWG `Response`: status, headers, then the streamed body. */
+export async function sendFetchResponse(
+  res: Response,
+  response: globalThis.Response
+) {
+  res.status(response.status);
+  if (response.statusText) res.statusMessage = response.statusText;
+
+  response.headers.forEach((value, name) => {
+    if (name === 'set-cookie') return;
+    if (response.body && BODY_FRAMING.has(name)) return;
+    res.setHeader(name, value);
+  });
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length) res.append('Set-Cookie', cookies);
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      res
+    );
+  } catch (err) {
+    // The client went away mid-stream; nothing left to answer
+    if (!res.destroyed) throw err;
+  }
+}
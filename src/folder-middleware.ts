@@ -0,0 +1,131 @@
+import path from 'node:path';
+import { pathToFileURL } from 'url';
+import { RequestHandler } from 'express';
+import { wrapMiddleware, MiddlewareFn } from './utils/wrapMiddleware.js';
+
+/**
+ * Middleware colocated in the api tree.
+ *
+ * A `middleware.ts` file applies to every route in its folder and below:
+ *
+ * ```ts
+ * // src/api/admin/middleware.ts
+ * export const middleware = [adminGuard, auditLogger];
+ * ```
+ *
+ * `middleware` may be a single function or an array; a default export is
+ * accepted too. Nested files run from the outermost folder inwards.
+ */
+
+/**
+ * Folder → wrapped middleware stack. Each route layer owns one, so apps
+ * created in the same process (e.g. parallel test clients) never share
+ * or overwrite each other's middleware.
+ */
+export type FolderMiddlewares = Map<string, MiddlewareFn[]>;
+
+export function isMiddlewareFile(file: string): boolean {
+  const name = path.basename(file);
+  return name === 'middleware.ts' || name === 'middleware.js';
+}
+
+/**
+ * Imports a folder `middleware.ts` and registers its stack for that folder.
+ * Throws if the module cannot be loaded or exports something other than
+ * middleware functions, so a guard can never be skipped silently.
+ */
+export async function loadFolderMiddleware(
+  registry: FolderMiddlewares,
+  file: string,
+  fresh = false
+) {
+  const url = pathToFileURL(file).href;
+  const mod = await import(fresh ? `${url}?t=${Date.now()}` : url);
+  const exported = mod.middleware ?? mod.default;
+
+  const stack = Array.isArray(exported)
+    ? exported
+    : exported === undefined
+      ? []
+      : [exported];
+
+  if (stack.some((mw) => typeof mw !== 'function')) {
+    const err = new Error(
+      `${file} must export \`middleware\` as a function or an array of functions`
+    );
+    err.name = 'FastayMiddlewareError';
+    throw err;
+  }
+
+  const wrapped = stack.map((mw: MiddlewareFn) => wrapMiddleware(mw));
+  registry.set(path.dirname(file), wrapped);
+
+  return wrapped.length;
+}
+
+export function removeFolderMiddleware(
+  registry: FolderMiddlewares,
+  file: string
+): boolean {
+  return registry.delete(path.dirname(file));
+}
+
+/**
+ * Swaps the stack registered for a folder without importing anything
+ * (used to mock middleware in tests). Returns the previous stack.
+ */
+export function replaceFolderMiddleware(
+  registry: FolderMiddlewares,
+  folder: string,
+  stack: MiddlewareFn[] | undefined
+): MiddlewareFn[] | undefined {
+  const previous = registry.get(folder);
+
+  if (stack) registry.set(folder, stack);
+  else registry.delete(folder);
+
+  return previous;
+}
+
+/** Middleware applying to a route file, ordered from `apiDir` inwards. */
+export function middlewareChain(
+  registry: FolderMiddlewares,
+  apiDir: string,
+  file: string
+): MiddlewareFn[] {
+  const rel = path.relative(apiDir, path.dirname(file));
+  const folders = rel ? rel.split(path.sep) : [];
+  const chain: MiddlewareFn[] = [...(registry.get(apiDir) ?? [])];
+
+  let current = apiDir;
+  for (const folder of folders) {
+    current = path.join(current, folder);
+    chain.push(...(registry.get(current) ?? []));
+  }
+
+  return chain;
+}
+
+/** Runs handlers in sequence, Express-style, as a single handler. */
+export function composeHandlers(handlers: RequestHandler[]): RequestHandler {
+  if (handlers.length === 1) return handlers[0];
+
+  return (req, res, next) => {
+    let index = 0;
+
+    const step = (err?: unknown) => {
+      if (err) return next(err);
+
+      const handler = handlers[index++];
+      if (!handler) return next();
+
+      try {
+        handler(req, res, step);
+      } catch (error) {
+        next(error);
+      }
+    };
+
+    step();
+  };
+}
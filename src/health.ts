@@ -0,0 +1,194 @@
+import { Router } from 'express';
+
+/**
+ * Liveness and readiness probes.
+ *
+ * ```
+ * GET /health        {"ok":true} while the process is up (as before probes)
+ * GET /health/live   200 while the process is up
+ * GET /health/ready  200 once booted and every critical check passes,
+ *                    503 while starting, stopping or failing
+ * ```
+ */
+
+export type HealthCheckFn = () => unknown | Promise<unknown>;
+
+export interface HealthCheck {
+  /** Resolves when healthy; throws or rejects otherwise. */
+  check: HealthCheckFn;
+
+  /**
+   * Time in milliseconds before the check fails.
+   * Default: `HealthOptions.timeout`
+   */
+  timeout?: number;
+
+  /**
+   * Whether a failure makes the app not ready. Non-critical failures are
+   * reported without failing `/ready`.
+   * Default: true
+   */
+  critical?: boolean;
+}
+
+export interface HealthOptions {
+  /**
+   * Liveness path kept for existing monitors (always `{"ok":true}`);
+   * `/live` and `/ready` are served below it.
+   * Default: "/health"
+   */
+  path?: string;
+
+  /** Liveness path. Default: `${path}/live` */
+  live?: string;
+
+  /** Readiness path. Default: `${path}/ready` */
+  ready?: string;
+
+  /** Named checks run on every readiness request, in parallel. */
+  checks?: Record<string, HealthCheckFn | HealthCheck>;
+
+  /**
+   * Default check timeout in milliseconds.
+   * Default: 2000
+   */
+  timeout?: number;
+
+  /**
+   * Includes per-check status, latency and errors in responses. Check
+   * errors can reveal hosts or connection strings: only enable it when
+   * the probes are not publicly reachable.
+   * When false, only `ok` and `state` are returned.
+   * Default: false
+   */
+  details?: boolean;
+}
+
+export type HealthState = 'starting' | 'ready' | 'stopping';
+
+export interface HealthCheckResult {
+  status: 'pass' | 'fail';
+  critical: boolean;
+  /** Milliseconds the check took. */
+  latency: number;
+  error?: string;
+}
+
+export interface HealthReport {
+  ok: boolean;
+  state: HealthState;
+  /** Process uptime in seconds. */
+  uptime?: number;
+  checks?: Record<string, HealthCheckResult>;
+}
+
+export interface Health {
+  router: Router;
+  state(): HealthState;
+  setState(state: HealthState): void;
+  register(name: string, check: HealthCheckFn | HealthCheck): void;
+  report(): Promise<HealthReport>;
+}
+
+export function createHealth(options: HealthOptions = {}): Health {
+  const {
+    path = '/health',
+    live = `${path}/live`,
+    ready = `${path}/ready`,
+    timeout = 2000,
+    details = false,
+  } = options;
+
+  const checks = new Map<string, HealthCheck>();
+  let state: HealthState = 'starting';
+
+  const register = (name: string, check: HealthCheckFn | HealthCheck) => {
+    checks.set(name, typeof check === 'function' ? { check } : check);
+  };
+
+  for (const [name, check] of Object.entries(options.checks ?? {})) {
+    register(name, check);
+  }
+
+  const report = async (): Promise<HealthReport> => {
+    const entries = await Promise.all(
+      [...checks].map(
+        async ([name, check]) => [name, await runCheck(check, timeout)] as const
+      )
+    );
+
+    const results = Object.fromEntries(entries);
+    const ok =
+      state === 'ready' &&
+      entries.every(([, r]) => r.status === 'pass' || !r.critical);
+
+    return {
+      ok,
+      state,
+      uptime: Math.round(process.uptime()),
+      checks: results,
+    };
+  };
+
+  const router = Router();
+
+  router.get([path, live], (_req, res) => {
+    res.json(
+      details
+        ? { ok: true, uptime: Math.round(process.uptime()) }
+        : { ok: true }
+    );
+  });
+
+  router.get(ready, async (_req, res) => {
+    const result = await report();
+    res.setHeader('Cache-Control', 'no-store');
+    res
+      .status(result.ok ? 200 : 503)
+      .json(details ? result : { ok: result.ok, state: result.state });
+  });
+
+  return {
+    router,
+    state: () => state,
+    setState: (next) => void (state = next),
+    register,
+    report,
+  };
+}
+
+async function runCheck(
+  { check, timeout: checkTimeout, critical = true }: HealthCheck,
+  defaultTimeout: number
+): Promise<HealthCheckResult> {
+  const start = performance.now();
+  const timeout = checkTimeout ?? defaultTimeout;
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    await Promise.race([
+      Promise.resolve().then(check),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${timeout}ms`)),
+          timeout
+        );
+      }),
+    ]);
+
+    return { status: 'pass', critical, latency: elapsed(start) };
+  } catch (err) {
+    return {
+      status: 'fail',
+      critical,
+      latency: elapsed(start),
+      error: err instanceof Error ? err.message : String(err),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function elapsed(start: number) {
+  return Math.round((performance.now() - start) * 100) / 100;
+}
@@ -0,0 +1,121 @@
+import path from "path";
+import { watch, FSWatcher } from "chokidar";
+import { logger } from "./logger.js";
+import {
+  RouteLayer,
+  reloadRouteFile,
+  reloadFolderMiddleware,
+  filePathToRoute,
+} from "./router.js";
+import { isMiddlewareFile } from "./folder-middleware.js";
+import { writeRouteTypes } from "./typegen.js";
+import { createMiddlewareLayer, resolveMiddlewareFile } from "./middleware.js";
+
+type MiddlewareLayer = ReturnType<typeof createMiddlewareLayer>;
+
+export interface HotReloadOptions {
+  /** Absolute directory route files are loaded from. */
+  apiDir: string;
+  baseRoute: string;
+  routes: RouteLayer;
+  middlewares: MiddlewareLayer;
+}
+
+/**
+ * Watches the api directory and the auto-loaded middleware file in dev mode
+ * and swaps the affected routes/middlewares in place.
+ *
+ * Only the changed file is re-imported; modules it depends on keep their
+ * ESM cache entry until the process restarts.
+ */
+export function watchForChanges(opts: HotReloadOptions): FSWatcher {
+  const { apiDir, baseRoute, routes, middlewares } = opts;
+  const middlewareFile = resolveMiddlewareFile();
+
+  const middlewareDir = path.dirname(middlewareFile);
+
+  // The directory is watched, even when missing at boot, so a middleware
+  // file created later is picked up
+  const watcher = watch([apiDir, middlewareDir], { ignoreInitial: true });
+
+  const reloadMiddlewares = async () => {
+    try {
+      await middlewares.load(true);
+      logger.success("Middlewares reloaded");
+    } catch (error) {
+      logger.error(`Failed to reload middlewares: ${(error as Error).message}`);
+    }
+  };
+
+  const reloadRoute = async (file: string, event: "add" | "change") => {
+    const route = filePathToRoute(apiDir, file, baseRoute);
+    if (!route) return;
+
+    try {
+      const count = await reloadRouteFile(routes, apiDir, file, baseRoute);
+      logger.success(
+        `Route ${event === "add" ? "added" : "reloaded"}: ${route} (${count} handlers)`
+      );
+    } catch (error) {
+      // Keep serving the previous version until the file is fixed.
+      logger.error(`Failed to reload ${file}: ${(error as Error).message}`);
+    }
+  };
+
+  const reloadFolder = async (file: string, removed: boolean) => {
+    try {
+      const count = await reloadFolderMiddleware(
+        routes,
+        apiDir,
+        file,
+        baseRoute,
+        removed
+      );
+      logger.success(
+        `Folder middleware ${removed ? "removed" : "reloaded"}: ${file} (${count} routes)`
+      );
+    } catch (error) {
+      // The previous stack stays active until the file is fixed.
+      logger.error(`Failed to reload ${file}: ${(error as Error).message}`);
+    }
+  };
+
+  watcher.on("all", (event, file) => {
+    if (file === middlewareFile) {
+      void reloadMiddlewares();
+      return;
+    }
+
+    // Other files next to the middleware file are not routes
+    if (!path.relative(middlewareDir, file).startsWith("..")) return;
+
+    if (isMiddlewareFile(file)) {
+      if (event === "add" || event === "change" || event === "unlink") {
+        void reloadFolder(file, event === "unlink");
+      }
+      return;
+    }
+
+    if (event === "add" || event === "change") {
+      void reloadRoute(file, event);
+    } else if (event === "unlink" && routes.remove(file)) {
+      logger.warn(`Route removed: ${filePathToRoute(apiDir, file, baseRoute)}`);
+    }
+
+    // Keep the generated route param types in sync with the tree.
+    if (
+      (event === "add" || event === "unlink") &&
+      filePathToRoute(apiDir, file, baseRoute)
+    ) {
+      writeRouteTypes(apiDir, baseRoute);
+    }
+  });
+
+  watcher.on("error", (error) => {
+    logger.error(`Watcher error: ${(error as Error).message}`);
+  });
+
+  logger.info(`Watching ${apiDir} for changes`);
+
+  return watcher;
+}
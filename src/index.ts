@@ -1,6 +1,94 @@
 export { createApp } from './app.js';
+export type { LoggingOptions, LogFormat } from './logger.js';
 export { createMiddleware } from './middleware.js';
-export type { CreateAppOptions } from './app.js';
-export type { Response, Next } from './types';
-export type { Request } from './types/request';
+export type { CreateAppOptions, FastayContext, FastayApp } from './app.js';
+export type { RouteInfo, RouterMode } from './router.js';
+export type {
+  Response,
+  Next,
+  RouteHandler,
+  RouteParams,
+  RoutePath,
+} from './types/index.js';
+export type { Request } from './types/request.js';
 export { cookies } from './utils/cookies.js';
+export { defineHandler } from './route-config.js';
+export type {
+  RouteConfig,
+  RouteModuleConfig,
+  CachePolicy,
+  RouteMeta,
+  RouteModuleMeta,
+} from './route-config.js';
+export { ValidationError, ResponseValidationError } from './validation.js';
+export type {
+  RequestSchema,
+  ValidatedRequest,
+  ValidationIssue,
+  ResponseSchema,
+  ResponseDefinition,
+} from './validation.js';
+export type { StandardSchemaV1 } from './types/standard-schema.js';
+export { generateOpenApi } from './openapi.js';
+export type { OpenApiOptions, OpenApiDocument } from './openapi.js';
+export { createTestClient, TestRequest } from './testing.js';
+export type { TestClient, TestClientOptions, TestResponse } from './testing.js';
+export type {
+  HealthOptions,
+  HealthCheck,
+  HealthCheckFn,
+  HealthCheckResult,
+  HealthReport,
+  HealthState,
+} from './health.js';
+export { getRequestContext } from './request-context.js';
+export type { RequestContext, RequestIdOptions } from './request-context.js';
+export type {
+  TelemetryOptions,
+  TelemetryTracerProvider,
+  TelemetryMeterProvider,
+} from './telemetry.js';
+export type { MetricsOptions } from './metrics.js';
+export {
+  HttpError,
+  BadRequest,
+  Unauthorized,
+  Forbidden,
+  NotFound,
+  MethodNotAllowed,
+  Conflict,
+  Gone,
+  PayloadTooLarge,
+  UnsupportedMediaType,
+  UnprocessableEntity,
+  TooManyRequests,
+  InternalServerError,
+  NotImplemented,
+  ServiceUnavailable,
+} from './errors.js';
+export type { HttpErrorOptions } from './errors.js';
+export { toProblem } from './problem.js';
+export type { ErrorFormat, ProblemDetails } from './problem.js';
+export type {
+  UploadOptions,
+  UploadLimits,
+  UploadInfo,
+  UploadSink,
+  FormDataStream,
+  StreamedFile,
+  UploadedFile,
+} from './utils/formDataMiddleware.js';
+export type { FetchHandler, FetchContext } from './fetch-adapter.js';
+export { sse } from './sse.js';
+export type {
+  SseEvent,
+  SseContext,
+  SseSource,
+  SseOptions,
+  SseStream,
+} from './sse.js';
+export type {
+  WebSocketHandler,
+  FastaySocket,
+  WebSocketOptions,
+} from './websocket.js';
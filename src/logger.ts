@@ -1,28 +1,135 @@
-import pino, { LogDescriptor } from "pino";
+import { AsyncLocalStorage } from "node:async_hooks";
+import pino, { LogDescriptor, Logger, LevelWithSilent } from "pino";
 import pretty, { PrettyOptions } from "pino-pretty";
+import { getRequestContext } from "./request-context.js";
 
-const stream = pretty({
-  colorize: true,
-  ignore: "pid,hostname,time,level",
-  levelFirst: false,
+export type LogFormat = "pretty" | "json";
 
-  // Remove "INFO: "
-  messageKey: "msg",
+/**
+ * Logging configuration (`CreateAppOptions.logging`).
+ */
+export interface LoggingOptions {
+  /**
+   * "pretty" prints colored, human-readable lines; "json" prints one JSON
+   * object per line for log ingestion.
+   * Default: "pretty"
+   */
+  format?: LogFormat;
 
-  messageFormat: (log: LogDescriptor, messageKey: string) => {
-    const msg = log[messageKey];
-    return typeof msg === "string" ? msg : String(msg);
-  },
-} as PrettyOptions);
+  /**
+   * Minimum level logged.
+   * Default: "info"
+   */
+  level?: LevelWithSilent;
 
-const base = pino(
-  {
-    level: "info",
-    timestamp: false, // remove [HH:mm:ss]
-    base: undefined, // remove pid, hostname
-  },
-  stream
-);
+  /**
+   * Logs one line per request when its response finishes.
+   * Default: true
+   */
+  accessLog?: boolean;
+
+  /**
+   * Extra paths to redact, in pino syntax (e.g. "req.headers['x-api-key']").
+   * `authorization` and `cookie` request headers and `set-cookie` response
+   * headers are always redacted.
+   */
+  redact?: string[];
+}
+
+const REDACT = [
+  "headers.authorization",
+  "headers.cookie",
+  "req.headers.authorization",
+  "req.headers.cookie",
+  'res.headers["set-cookie"]',
+];
+
+function createBase({
+  format = "pretty",
+  level = "info",
+  redact = [],
+}: LoggingOptions) {
+  const options = {
+    level,
+    redact: { paths: [...REDACT, ...redact], censor: "[Redacted]" },
+    // Lines logged while handling a request carry its id
+    mixin: (_: object, _level: number, logger: Logger) => {
+      const context = getRequestContext();
+      return context && !("reqId" in logger.bindings())
+        ? { reqId: context.id }
+        : {};
+    },
+  };
+
+  if (format === "json") return pino(options);
+
+  const stream = pretty({
+    colorize: true,
+    ignore: "pid,hostname,time,level",
+    levelFirst: false,
+    // Request bindings (reqId, route...) are only kept in JSON output
+    hideObject: true,
+
+    // Remove "INFO: "
+    messageKey: "msg",
+
+    messageFormat: (log: LogDescriptor, messageKey: string) => {
+      const msg = log[messageKey];
+      const text = typeof msg === "string" ? msg : String(msg);
+      // Attached errors are hidden with the other bindings; keep their stack
+      const stack = log.err?.stack ?? log.err?.message;
+      return stack ? `${text}\n${stack}` : text;
+    },
+  } as PrettyOptions);
+
+  return pino(
+    {
+      ...options,
+      timestamp: false, // remove [HH:mm:ss]
+      base: undefined, // remove pid, hostname
+    },
+    stream
+  );
+}
+
+/** The logger of one application, built from its `opts.logging`. */
+export interface AppLogger {
+  base: Logger;
+  json: boolean;
+}
+
+export function createAppLogger(options: LoggingOptions = {}): AppLogger {
+  return { base: createBase(options), json: options.format === "json" };
+}
+
+// Logger used outside of any application
+let fallback: AppLogger = createAppLogger();
+
+// Logger of the application whose boot, request or shutdown is running,
+// so apps of the same process keep their own level and format
+const scope = new AsyncLocalStorage<AppLogger>();
+
+/** Replaces the logger used outside of applications. */
+export function configureLogger(options: LoggingOptions = {}) {
+  fallback = createAppLogger(options);
+}
+
+/** Runs `fn` with `appLogger` as the logger of everything it calls. */
+export function runWithLogger<T>(appLogger: AppLogger, fn: () => T): T {
+  return scope.run(appLogger, fn);
+}
+
+const current = () => scope.getStore() ?? fallback;
+
+/** The underlying pino logger, for child loggers. */
+export function baseLogger(): Logger {
+  return current().base;
+}
+
+/** Whether logs are written as JSON lines. */
+export function isJsonLogging() {
+  return current().json;
+}
 
 const colors = {
   white: (s: string) => `\x1b[37m${s}\x1b[0m`,
@@ -39,21 +146,56 @@ const ICONS = {
   gear: "⚙️",
 };
 
+/** ` [request-id]` when logging while handling a request. */
+function requestTag() {
+  const context = getRequestContext();
+  return context ? colors.gray(` [${context.id}]`) : "";
+}
+
+// In JSON mode the dev banner helpers log plain messages at their level
 export const logger = {
-  info: (msg: string) =>
-    base.info(` ${colors.white(ICONS.info)} ${colors.white(msg)}`),
-  warn: (msg: string) => base.info(` ${colors.red("⚠")} ${colors.white(msg)}`),
-  error: (msg: string) =>
-    base.info(` ${colors.red(ICONS.error)} ${colors.white(msg)}`),
-  success: (msg: string) =>
-    base.info(` ${colors.green(ICONS.success)} ${colors.white(msg)}`),
-  gear: (msg: string) => base.info(` ${ICONS.gear}  ${colors.white(msg)}`),
+  info: (msg: string) => {
+    const { base, json } = current();
+    return json
+      ? base.info(msg)
+      : base.info(` ${colors.white(ICONS.info)} ${colors.white(msg)}`);
+  },
+  warn: (msg: string) => {
+    const { base, json } = current();
+    return json
+      ? base.warn(msg)
+      : base.warn(` ${colors.red("⚠")} ${colors.white(msg)}${requestTag()}`);
+  },
+  error: (msg: string) => {
+    const { base, json } = current();
+    return json
+      ? base.error(msg)
+      : base.error(
+          ` ${colors.red(ICONS.error)} ${colors.white(msg)}${requestTag()}`
+        );
+  },
+  success: (msg: string) => {
+    const { base, json } = current();
+    return json
+      ? base.info(msg)
+      : base.info(` ${colors.green(ICONS.success)} ${colors.white(msg)}`);
+  },
+  gear: (msg: string) => {
+    const { base, json } = current();
+    return json
+      ? base.info(msg)
+      : base.info(` ${ICONS.gear}  ${colors.white(msg)}`);
+  },
 
   space(lines: number = 1) {
+    const { base, json } = current();
+    if (json) return;
     for (let i = 0; i < lines; i++) base.info(" ");
   },
 
   group(title: string) {
+    const { base, json } = current();
+    if (json) return;
     this.space();
     base.info("");
     base.info(colors.cyan(title));
@@ -61,6 +203,8 @@ export const logger = {
   },
 
   raw(msg: string) {
+    const { base, json } = current();
+    if (json) return;
     base.info(msg);
   },
 
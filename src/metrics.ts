@@ -0,0 +1,395 @@
+import { timingSafeEqual } from 'node:crypto';
+import { createServer, Server } from 'node:http';
+import {
+  monitorEventLoopDelay,
+  PerformanceObserver,
+  constants,
+} from 'node:perf_hooks';
+import express, { Request, Response, NextFunction, Router } from 'express';
+import { onResponseDone } from './utils/responseDone.js';
+
+/**
+ * Prometheus metrics in text exposition format.
+ *
+ * Requests are recorded when their response finishes, whichever part of
+ * the app answered (route handler, error handler or 404), labeled by
+ * method, route pattern and status class:
+ *
+ * ```
+ * fastay_http_requests_total{method="GET",route="/api/users/:id",status="2xx"} 12
+ * fastay_http_request_duration_seconds_bucket{...,le="0.05"} 11
+ * fastay_http_response_size_bytes_sum{...} 5120
+ * ```
+ *
+ * Responses that matched no route are labeled `route="unmatched"` so
+ * scanners cannot blow up label cardinality. Requests whose client
+ * disconnected before the response was sent are labeled
+ * `status="aborted"`.
+ */
+
+export interface MetricsOptions {
+  /**
+   * Path serving the metrics.
+   * Default: "/metrics"
+   */
+  path?: string;
+
+  /**
+   * Requires `Authorization: Bearer <token>` to read the metrics.
+   */
+  token?: string;
+
+  /**
+   * Serves the metrics on this port instead of the application's,
+   * so they are not reachable through the public listener.
+   */
+  port?: number;
+
+  /**
+   * Latency histogram buckets, in seconds.
+   * Default: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+   */
+  buckets?: number[];
+
+  /**
+   * Collects Node process metrics (event loop lag, heap, GC, CPU, memory).
+   * Default: true
+   */
+  processMetrics?: boolean;
+}
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+const SIZE_BUCKETS = [100, 1_000, 10_000, 100_000, 1_000_000, 10_000_000];
+const GC_BUCKETS = [0.001, 0.01, 0.1, 1, 2, 5];
+
+const GC_KINDS: Record<number, string> = {
+  [constants.NODE_PERFORMANCE_GC_MAJOR]: 'major',
+  [constants.NODE_PERFORMANCE_GC_MINOR]: 'minor',
+  [constants.NODE_PERFORMANCE_GC_INCREMENTAL]: 'incremental',
+  [constants.NODE_PERFORMANCE_GC_WEAKCB]: 'weakcb',
+};
+
+function escapeLabel(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabel(value)}"`
+  );
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function header(name: string, help: string, type: string) {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function createCounter(name: string, help: string) {
+  const values = new Map<string, { labels: Labels; value: number }>();
+
+  return {
+    inc(labels: Labels, by = 1) {
+      const key = JSON.stringify(labels);
+      const entry = values.get(key) ?? { labels, value: 0 };
+      entry.value += by;
+      values.set(key, entry);
+    },
+
+    collect() {
+      return [
+        ...header(name, help, 'counter'),
+        ...[...values.values()].map(
+          ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`
+        ),
+      ];
+    },
+  };
+}
+
+function createHistogram(name: string, help: string, buckets: number[]) {
+  const sorted = [...buckets].sort((a, b) => a - b);
+  const values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  return {
+    observe(labels: Labels, value: number) {
+      const key = JSON.stringify(labels);
+      const entry = values.get(key) ?? {
+        labels,
+        counts: sorted.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+
+      sorted.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      values.set(key, entry);
+    },
+
+    collect() {
+      const lines = header(name, help, 'histogram');
+
+      for (const { labels, counts, sum, count } of values.values()) {
+        sorted.forEach((bound, i) => {
+          const le = formatLabels({ ...labels, le: String(bound) });
+          lines.push(`${name}_bucket${le} ${counts[i]}`);
+        });
+        lines.push(
+          `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+          `${name}_sum${formatLabels(labels)} ${sum}`,
+          `${name}_count${formatLabels(labels)} ${count}`
+        );
+      }
+
+      return lines;
+    },
+  };
+}
+
+function gauge(name: string, help: string, value: number) {
+  return [...header(name, help, 'gauge'), `${name} ${value}`];
+}
+
+function total(name: string, help: string, value: number) {
+  return [...header(name, help, 'counter'), `${name} ${value}`];
+}
+
+/**
+ * Node process metrics, collected on scrape except for GC timings. Event
+ * loop lag covers the time since the previous scrape.
+ */
+function createProcessMetrics() {
+  const lag = monitorEventLoopDelay({ resolution: 10 });
+  lag.enable();
+
+  const gc = createHistogram(
+    'nodejs_gc_duration_seconds',
+    'Garbage collection duration by kind.',
+    GC_BUCKETS
+  );
+  const observer = new PerformanceObserver((list) => {
+    for (const entry of list.getEntries()) {
+      const kind = (entry as any).detail?.kind as number | undefined;
+      gc.observe(
+        { kind: GC_KINDS[kind ?? -1] ?? 'unknown' },
+        entry.duration / 1000
+      );
+    }
+  });
+  observer.observe({ entryTypes: ['gc'] });
+
+  return {
+    collect() {
+      const memory = process.memoryUsage();
+      const cpu = process.cpuUsage();
+      const seconds = (ns: number) => (Number.isFinite(ns) ? ns / 1e9 : 0);
+      const lagMean = seconds(lag.mean);
+      const lagP99 = seconds(lag.percentile(99));
+      const lagMax = seconds(lag.max);
+      lag.reset();
+
+      return [
+        ...total(
+          'process_cpu_seconds_total',
+          'Total user and system CPU time spent in seconds.',
+          (cpu.user + cpu.system) / 1e6
+        ),
+        ...gauge(
+          'process_resident_memory_bytes',
+          'Resident memory size in bytes.',
+          memory.rss
+        ),
+        ...gauge(
+          'process_start_time_seconds',
+          'Start time of the process since unix epoch in seconds.',
+          Math.round(Date.now() / 1000 - process.uptime())
+        ),
+        ...gauge(
+          'nodejs_heap_size_used_bytes',
+          'Process heap size used in bytes.',
+          memory.heapUsed
+        ),
+        ...gauge(
+          'nodejs_heap_size_total_bytes',
+          'Process heap size in bytes.',
+          memory.heapTotal
+        ),
+        ...gauge(
+          'nodejs_external_memory_bytes',
+          'Node.js external memory size in bytes.',
+          memory.external
+        ),
+        ...gauge(
+          'nodejs_eventloop_lag_seconds',
+          'Mean event loop lag since the last scrape in seconds.',
+          lagMean
+        ),
+        ...gauge(
+          'nodejs_eventloop_lag_p99_seconds',
+          '99th percentile of event loop lag since the last scrape in seconds.',
+          lagP99
+        ),
+        ...gauge(
+          'nodejs_eventloop_lag_max_seconds',
+          'Maximum event loop lag since the last scrape in seconds.',
+          lagMax
+        ),
+        ...gc.collect(),
+      ];
+    },
+
+    close() {
+      lag.disable();
+      observer.disconnect();
+    },
+  };
+}
+
+function authorized(req: Request, token: string | undefined) {
+  if (!token) return true;
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(req.headers.authorization ?? '');
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+export interface Metrics {
+  /** Records every request once its response finishes or is aborted. */
+  middleware: (req: Request, res: Response, next: NextFunction) => void;
+  /** Serves the metrics at `path`; mount it on the app when no `port` is set. */
+  router: Router;
+  /** Metrics in text exposition format. */
+  collect(): string;
+  /** Starts the separate metrics server when `port` is set. */
+  listen(): Promise<Server | undefined>;
+  close(): Promise<void>;
+}
+
+export function createMetrics(options: MetricsOptions = {}): Metrics {
+  const { path = '/metrics', token, port, processMetrics = true } = options;
+
+  const requests = createCounter(
+    'fastay_http_requests_total',
+    'Total HTTP requests.'
+  );
+  const duration = createHistogram(
+    'fastay_http_request_duration_seconds',
+    'HTTP request duration in seconds.',
+    options.buckets ?? DEFAULT_BUCKETS
+  );
+  const size = createHistogram(
+    'fastay_http_response_size_bytes',
+    'HTTP response body size in bytes.',
+    SIZE_BUCKETS
+  );
+  const runtime = processMetrics ? createProcessMetrics() : undefined;
+
+  const collect = () =>
+    [
+      ...requests.collect(),
+      ...duration.collect(),
+      ...size.collect(),
+      ...(runtime?.collect() ?? []),
+    ].join('\n') + '\n';
+
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const start = performance.now();
+    let bytes = 0;
+
+    // Counts body bytes, whether sent at once or streamed
+    const { write, end } = res;
+    const count = (chunk: any, encoding?: any) => {
+      if (chunk == null || typeof chunk === 'function') return;
+      bytes +=
+        typeof chunk === 'string'
+          ? Buffer.byteLength(
+              chunk,
+              typeof encoding === 'string'
+                ? (encoding as BufferEncoding)
+                : 'utf8'
+            )
+          : chunk.length;
+    };
+    res.write = function (this: Response, chunk: any, ...args: any[]) {
+      count(chunk, args[0]);
+      return (write as Function).call(this, chunk, ...args);
+    } as typeof res.write;
+    res.end = function (this: Response, chunk?: any, ...args: any[]) {
+      count(chunk, args[0]);
+      return (end as Function).call(this, chunk, ...args);
+    } as typeof res.end;
+
+    onResponseDone(res, (outcome) => {
+      const labels = {
+        method: req.method,
+        route: req.routePattern ?? 'unmatched',
+        status:
+          outcome === 'aborted'
+            ? 'aborted'
+            : `${Math.floor(res.statusCode / 100)}xx`,
+      };
+
+      requests.inc(labels);
+      duration.observe(labels, (performance.now() - start) / 1000);
+      size.observe(labels, bytes);
+    });
+
+    next();
+  };
+
+  const router = Router();
+  router.get(path, (req, res) => {
+    if (!authorized(req, token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      res.status(401).json({ error: 'Unauthorized', requestId: req.id });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(collect());
+  });
+
+  let server: Server | undefined;
+
+  return {
+    middleware,
+    router,
+    collect,
+
+    async listen() {
+      if (port === undefined) return;
+
+      server = createServer(express().use(router));
+      await new Promise<void>((resolve, reject) => {
+        server!.once('error', reject);
+        server!.listen(port, () => {
+          server!.off('error', reject);
+          resolve();
+        });
+      });
+      return server;
+    },
+
+    async close() {
+      runtime?.close();
+      if (server?.listening) {
+        await new Promise<void>((resolve) => server!.close(() => resolve()));
+      }
+    },
+  };
+}
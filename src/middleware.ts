@@ -1,9 +1,10 @@
-import { Application, Response, NextFunction } from "express";
+import { IRouter, Router, Response, NextFunction } from "express";
 import path from "path";
 import fs from "fs";
 import { pathToFileURL } from "url";
 import { logger } from "./logger.js";
 import { wrapMiddleware } from "./utils/wrapMiddleware.js";
+import { traced } from "./telemetry.js";
 import { Request } from "./types/request.js";
 
 type MiddlewareFn = (req: Request, res: Response, next: NextFunction) => any;
@@ -68,28 +69,48 @@ export type MiddlewareMap = Record<string, MiddlewareFn[]>;
  */
 export function createMiddleware(map: Record<string, MiddlewareFn[]>) {
   // logger.info('Loading Fastay core middleware...');
-  return (app: Application) => {
+  return (app: IRouter) => {
     for (const [route, middlewares] of Object.entries(map)) {
       for (const mw of middlewares) {
-        const wrapped = wrapMiddleware(mw);
+        const wrapped = traced(
+          `middleware ${mw.name || "anonymous"}`,
+          "middleware",
+          wrapMiddleware(mw) as unknown as import("express").RequestHandler
+        );
 
-        app.use(route, wrapped as unknown as import("express").RequestHandler);
+        app.use(route, wrapped);
       }
     }
   };
 }
 
-export async function loadFastayMiddlewares(app: Application) {
+/** Resolves the auto-loaded `middlewares/middleware` file for the current environment. */
+export function resolveMiddlewareFile() {
   const isDev = process.env.NODE_ENV !== "production";
   const mwDir = path.resolve(
     process.cwd(),
     isDev ? "src/middlewares" : "dist/middlewares"
   );
 
-  const file = path.join(mwDir, isDev ? "middleware.ts" : "middleware.js");
+  return path.join(mwDir, isDev ? "middleware.ts" : "middleware.js");
+}
+
+/**
+ * Loads the auto-discovered middleware file onto `app`.
+ *
+ * `app` may also be a standalone `Router`, which is how the dev watcher
+ * swaps in a freshly loaded middleware stack. `fresh` bypasses the ESM
+ * loader cache.
+ */
+export async function loadFastayMiddlewares(
+  app: IRouter,
+  fresh = false
+) {
+  const file = resolveMiddlewareFile();
   if (!fs.existsSync(file)) return;
 
-  const mod = await import(pathToFileURL(file).href);
+  const url = pathToFileURL(file).href;
+  const mod = await import(fresh ? `${url}?t=${Date.now()}` : url);
 
   if (!mod.middleware) return;
 
@@ -107,3 +128,24 @@ export async function loadFastayMiddlewares(app: Application) {
     }
   }
 }
+
+/**
+ * Swappable holder for the auto-loaded middleware stack.
+ *
+ * `handle` is mounted once; every `load()` builds a new stack and replaces
+ * the previous one atomically, so reloading never leaves a half-built chain.
+ */
+export function createMiddlewareLayer() {
+  let current = Router();
+
+  return {
+    handle: ((req, res, next) =>
+      current(req, res, next)) as import("express").RequestHandler,
+
+    async load(fresh = false) {
+      const next = Router();
+      await loadFastayMiddlewares(next, fresh);
+      current = next;
+    },
+  };
+}
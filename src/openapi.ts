@@ -0,0 +1,352 @@
+import fs from 'fs';
+import { Router } from 'express';
+import type { StandardSchemaV1 } from './types/standard-schema.js';
+import type { RouteDefinition, RouteLayer, HttpMethod } from './router.js';
+import type { RouteMeta, RouteModuleMeta } from './route-config.js';
+import type { ResponseDefinition } from './validation.js';
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Options for the generated OpenAPI 3.1 document.
+ */
+export interface OpenApiOptions {
+  /**
+   * Path the document is served at.
+   * Default: "/openapi.json"
+   */
+  path?: string;
+
+  /**
+   * Path of a docs UI page (e.g. "/docs"). The page loads Scalar's API
+   * reference from the jsDelivr CDN, pinned to one version and checked
+   * with Subresource Integrity.
+   * Default: false (no docs page)
+   */
+  docsPath?: string | false;
+
+  /** `info` object of the document. */
+  info?: { title?: string; version?: string; description?: string };
+
+  /** `servers` entries of the document. */
+  servers?: { url: string; description?: string }[];
+
+  /**
+   * Converts a request/response schema into JSON Schema.
+   * Defaults to the validator's own converter when it exposes one
+   * (Standard JSON Schema `~standard.jsonSchema`, or `toJsonSchema()`).
+   *
+   * @example
+   * ```ts
+   * { toJsonSchema: (schema) => z.toJSONSchema(schema) }
+   * ```
+   */
+  toJsonSchema?: (
+    schema: StandardSchemaV1,
+    io: 'input' | 'output'
+  ) => JsonSchema | undefined;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Record<string, any>>;
+}
+
+/** Converts a schema to JSON Schema with the configured or built-in converter. */
+export function schemaToJson(
+  schema: StandardSchemaV1 | undefined,
+  io: 'input' | 'output',
+  options: OpenApiOptions
+): JsonSchema | undefined {
+  if (!schema) return undefined;
+
+  const standard = (schema['~standard'] as any).jsonSchema;
+  const candidate = schema as any;
+
+  const json =
+    options.toJsonSchema?.(schema, io) ??
+    (typeof standard?.[io] === 'function'
+      ? standard[io]({ target: 'draft-2020-12' })
+      : typeof candidate.toJsonSchema === 'function'
+        ? candidate.toJsonSchema()
+        : {});
+
+  // The document already declares its dialect.
+  const { $schema, ...rest } = json;
+  return rest;
+}
+
+/** Express route pattern → OpenAPI path template plus its path params. */
+export function toOpenApiPath(route: string): {
+  path: string;
+  params: { name: string; catchAll: boolean }[];
+} {
+  const params: { name: string; catchAll: boolean }[] = [];
+
+  const path = route
+    .replace(/\{\/\*([^}]+)\}/g, (_, name) => {
+      params.push({ name, catchAll: true });
+      return `/{${name}}`;
+    })
+    .replace(/\*([^/{}]+)/g, (_, name) => {
+      params.push({ name, catchAll: true });
+      return `{${name}}`;
+    })
+    .replace(/:([^/{}]+)/g, (_, name) => {
+      params.push({ name, catchAll: false });
+      return `{${name}}`;
+    });
+
+  return { path: path.length > 1 ? path.replace(/\/$/, '') : path, params };
+}
+
+// File → source, for JSDoc lookups
+const sourceCache = new Map<string, { mtime: number; source: string }>();
+
+function readSource(file: string): string {
+  try {
+    const mtime = fs.statSync(file).mtimeMs;
+    const cached = sourceCache.get(file);
+    if (cached && cached.mtime === mtime) return cached.source;
+
+    const source = fs.readFileSync(file, 'utf-8');
+    sourceCache.set(file, { mtime, source });
+    return source;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Reads the JSDoc block right above a method export: the first paragraph
+ * becomes the summary and the rest the description. `@deprecated` and
+ * `@tag name` are recognized.
+ */
+export function readJsDocMeta(file: string, method: HttpMethod): RouteMeta {
+  const source = readSource(file);
+  const target =
+    method === 'GET'
+      ? `(?:(?:function|const|let)\\s+GET\\b|default\\b)`
+      : `(?:function|const|let)\\s+${method}\\b`;
+  const match = source.match(
+    new RegExp(
+      `/\\*\\*((?:(?!\\*/)[\\s\\S])*)\\*/\\s*export\\s+(?:async\\s+)?${target}`
+    )
+  );
+  if (!match) return {};
+
+  const lines = match[1]
+    .split('\n')
+    .map((line) => line.replace(/^\s*\*?/, '').trim());
+
+  const meta: RouteMeta = {};
+  const text: string[] = [];
+
+  for (const line of lines) {
+    if (line.startsWith('@deprecated')) meta.deprecated = true;
+    else if (line.startsWith('@tag ')) {
+      meta.tags = [...(meta.tags ?? []), line.slice(5).trim()];
+    } else if (!line.startsWith('@')) text.push(line);
+  }
+
+  const [summary, ...rest] = text
+    .join('\n')
+    .trim()
+    .split(/\n\s*\n/);
+  if (summary) meta.summary = summary.replace(/\s+/g, ' ');
+  if (rest.length) meta.description = rest.join('\n\n').trim();
+
+  return meta;
+}
+
+/** JSDoc → `meta` export → `meta[method]` → `defineHandler({ meta })` */
+export function resolveMeta(
+  definition: RouteDefinition,
+  method: HttpMethod,
+  meta?: RouteMeta
+): RouteMeta {
+  const { GET, POST, PUT, DELETE, PATCH, OPTIONS, HEAD, ...shared } =
+    (definition.module.meta ?? {}) as RouteModuleMeta;
+  const perMethod = (definition.module.meta ?? {})[method] ?? {};
+
+  return {
+    ...readJsDocMeta(definition.file, method),
+    ...shared,
+    ...perMethod,
+    ...meta,
+  };
+}
+
+/** Builds `parameters` entries for one location from its schema. */
+function schemaParameters(
+  location: 'query' | 'header',
+  schema: JsonSchema | undefined
+) {
+  if (!schema?.properties) return [];
+
+  const required = new Set<string>(schema.required ?? []);
+  return Object.entries(schema.properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: required.has(name),
+    schema: property,
+  }));
+}
+
+/**
+ * Generates an OpenAPI 3.1 document from registered route definitions.
+ */
+export function generateOpenApi(
+  definitions: RouteDefinition[],
+  options: OpenApiOptions = {}
+): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const definition of definitions) {
+    const { path, params } = toOpenApiPath(definition.route);
+
+    for (const { method, config } of definition.methods) {
+      const meta = resolveMeta(definition, method, config.meta);
+      if (meta.hidden) continue;
+
+      const schema = config.schema ?? {};
+      const paramsJson = schemaToJson(schema.params, 'input', options);
+
+      const parameters = [
+        ...params.map(({ name, catchAll }) => ({
+          name,
+          in: 'path',
+          required: true,
+          schema: paramsJson?.properties?.[name] ?? { type: 'string' },
+          ...(catchAll && {
+            description: 'Remaining path segments, separated by "/"',
+          }),
+        })),
+        ...schemaParameters(
+          'query',
+          schemaToJson(schema.query, 'input', options)
+        ),
+        ...schemaParameters(
+          'header',
+          schemaToJson(schema.headers, 'input', options)
+        ),
+      ];
+
+      const responses: Record<string, any> = {};
+      for (const [status, declared] of Object.entries(config.response ?? {})) {
+        const responseSchema =
+          '~standard' in declared
+            ? (declared as StandardSchemaV1)
+            : (declared as ResponseDefinition).schema;
+        const json = schemaToJson(responseSchema, 'output', options);
+
+        responses[status] = {
+          description: `Status ${status}`,
+          ...(json && { content: { 'application/json': { schema: json } } }),
+        };
+      }
+
+      const operation: Record<string, any> = {
+        ...(meta.summary && { summary: meta.summary }),
+        ...(meta.description && { description: meta.description }),
+        ...(meta.tags && { tags: meta.tags }),
+        ...(meta.operationId && { operationId: meta.operationId }),
+        ...(meta.deprecated && { deprecated: true }),
+        ...(parameters.length && { parameters }),
+        responses: Object.keys(responses).length
+          ? responses
+          : { 200: { description: 'Successful response' } },
+      };
+
+      const bodyJson = schemaToJson(schema.body, 'input', options);
+      if (bodyJson) {
+        operation.requestBody = {
+          required: true,
+          content: { 'application/json': { schema: bodyJson } },
+        };
+      }
+
+      paths[path] ??= {};
+      paths[path][method.toLowerCase()] = operation;
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.info?.title ?? 'Fastay API',
+      version: options.info?.version ?? '1.0.0',
+      ...(options.info?.description && {
+        description: options.info.description,
+      }),
+    },
+    ...(options.servers && { servers: options.servers }),
+    paths,
+  };
+}
+
+// Update both together: the hash is the sha384 of that exact file
+const SCALAR_SCRIPT =
+  'https://cdn.jsdelivr.net/npm/@scalar/api-reference@1.72.1/dist/browser/standalone.js';
+const SCALAR_INTEGRITY =
+  'sha384-U11tb2XnKvmwt8RlTvnwUnYgrN+ur4Xyh9htLhjajWNR/Oyl5AX5DEz00qRmlrmK';
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+
+/** Minimal docs page rendering the document with Scalar's API reference. */
+function docsPage(specUrl: string, title: string): string {
+  return `<!doctype html>
+<html>
+  <head>
+    <title>${escapeHtml(title)}</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+  </head>
+  <body>
+    <script id="api-reference" data-url="${escapeHtml(specUrl)}"></script>
+    <script
+      src="${SCALAR_SCRIPT}"
+      integrity="${SCALAR_INTEGRITY}"
+      crossorigin="anonymous"
+    ></script>
+  </body>
+</html>`;
+}
+
+/**
+ * Router serving the document (and the docs page) for the routes of `layer`.
+ * The document is regenerated on each request so hot-reloaded routes show up.
+ */
+export function createOpenApiRouter(
+  layer: RouteLayer,
+  options: OpenApiOptions = {}
+): Router {
+  const router = Router();
+  const specPath = options.path ?? '/openapi.json';
+  const docsPath = options.docsPath ?? false;
+
+  router.get(specPath, (_req, res) => {
+    res.json(generateOpenApi(layer.definitions(), options));
+  });
+
+  if (docsPath) {
+    router.get(docsPath, (_req, res) => {
+      res
+        .type('html')
+        .send(docsPage(specPath, options.info?.title ?? 'Fastay API'));
+    });
+  }
+
+  return router;
+}
@@ -0,0 +1,104 @@
+import { STATUS_CODES } from 'node:http';
+import { Request, Response } from 'express';
+import { HttpError } from './errors.js';
+import { ValidationError } from './validation.js';
+
+/**
+ * RFC 9457 problem details, used for every error response when
+ * `createApp({ errorFormat: 'problem+json' })` is set:
+ *
+ * ```json
+ * {
+ *   "type": "about:blank",
+ *   "title": "Not Found",
+ *   "status": 404,
+ *   "detail": "User not found",
+ *   "instance": "/api/users/7",
+ *   "code": "USER_NOT_FOUND",
+ *   "requestId": "3f0c..."
+ * }
+ * ```
+ *
+ * `code`, `details` and `requestId` are extension members.
+ */
+
+export type ErrorFormat = 'json' | 'problem+json';
+
+export interface ProblemDetails {
+  /** URI identifying the problem type. Default: "about:blank" */
+  type: string;
+  /** Short summary of the problem type (the status text for "about:blank"). */
+  title: string;
+  status: number;
+  /** Explanation specific to this occurrence. */
+  detail?: string;
+  /** URI of this occurrence (the request URL). */
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+const ERROR_FORMAT = Symbol('fastay.errorFormat');
+
+/**
+ * Sets the error body format of the built-in error responses of `app`,
+ * kept in `app.locals` so apps of the same process do not share it.
+ */
+export function configureErrorFormat(
+  app: { locals: object },
+  value: ErrorFormat = 'json'
+) {
+  (app.locals as Record<symbol, ErrorFormat>)[ERROR_FORMAT] = value;
+}
+
+/** Error body format of the app handling `req`. */
+export function errorFormat(req: Request): ErrorFormat {
+  const locals = req.app?.locals as Record<symbol, ErrorFormat> | undefined;
+  return locals?.[ERROR_FORMAT] ?? 'json';
+}
+
+/**
+ * Problem details for `err` answered with `status`. The error message is
+ * only sent as `detail` when the error is meant for the client
+ * (`HttpError#expose`, `ValidationError`, body parser errors).
+ */
+export function toProblem(
+  req: Request,
+  status: number,
+  err?: unknown
+): ProblemDetails {
+  const problem: ProblemDetails = {
+    type: 'about:blank',
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+  };
+
+  if (err instanceof HttpError) {
+    if (err.type) problem.type = err.type;
+    if (err.expose) problem.detail = err.message;
+  } else if ((err as { expose?: boolean } | undefined)?.expose) {
+    problem.detail = (err as Error).message;
+  }
+
+  problem.instance = req.originalUrl;
+
+  if (err instanceof HttpError) {
+    problem.code = err.code;
+    if (err.expose && err.details !== undefined) {
+      problem.details = err.details;
+    }
+  } else if (err instanceof ValidationError) {
+    problem.details = err.issues;
+  }
+
+  problem.requestId = req.id;
+  return problem;
+}
+
+/** Sends `problem` with its status and the problem+json content type. */
+export function sendProblem(res: Response, problem: ProblemDetails) {
+  res.status(problem.status);
+  res.setHeader('Content-Type', PROBLEM_CONTENT_TYPE);
+  return res.send(JSON.stringify(problem));
+}
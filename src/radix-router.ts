@@ -0,0 +1,101 @@
+import FindMyWay from 'find-my-way';
+import { RequestHandler } from 'express';
+import { logger } from './logger.js';
+import type { RouteDefinition } from './router.js';
+import { withWebSocket } from './websocket.js';
+
+interface RadixStore {
+  handler: RequestHandler;
+  /** Name of the catch-all param, exposed as an array like Express does */
+  catchAll?: string;
+  /** Whether the catch-all must match at least one segment (`*slug`) */
+  required?: boolean;
+}
+
+/**
+ * Translates an Express 5 route pattern into the find-my-way paths it needs.
+ *
+ * `/docs/*slug` becomes `/docs/*`, and the optional `/files{/*path}` is
+ * registered twice: as `/files` and as `/files/*`.
+ */
+function toRadixPaths(route: string): {
+  paths: string[];
+  catchAll?: string;
+  required?: boolean;
+} {
+  const optional = route.match(/\{\/\*([^}]+)\}$/);
+  if (optional) {
+    const base = route.slice(0, optional.index) || '/';
+    return {
+      paths: [base, `${base.replace(/\/$/, '')}/*`],
+      catchAll: optional[1],
+    };
+  }
+
+  const required = route.match(/\/\*([^/]+)$/);
+  if (required) {
+    return {
+      paths: [`${route.slice(0, required.index)}/*`],
+      catchAll: required[1],
+      required: true,
+    };
+  }
+
+  return { paths: [route] };
+}
+
+/**
+ * Radix mode: registers every handler into a single find-my-way instance.
+ *
+ * Lookups are O(path length) instead of walking one Express layer per
+ * route file. Handlers are the same wrapped Express handlers used in
+ * express mode, so `req.params` and the response protocol are unchanged.
+ */
+export function compileRadixRouter(ordered: RouteDefinition[]): RequestHandler {
+  const router = FindMyWay({ ignoreTrailingSlash: true, caseSensitive: false });
+  const noop = () => {};
+
+  for (const { route, methods, websocket } of ordered) {
+    const { paths, catchAll, required } = toRadixPaths(route);
+
+    for (const { method, handler } of withWebSocket(methods, websocket)) {
+      for (const radixPath of paths) {
+        try {
+          router.on(method, radixPath, noop, {
+            handler,
+            catchAll,
+            required,
+          } as RadixStore);
+        } catch {
+          // A more specific route already claimed this path (routes are
+          // registered in matching order), as in express mode.
+          logger.warn(`[${method}] ${radixPath} shadowed by an earlier route`);
+        }
+      }
+    }
+  }
+
+  return (req, res, next) => {
+    const method = req.method as FindMyWay.HTTPMethod;
+    const match =
+      router.find(method, req.path) ??
+      (method === 'HEAD' ? router.find('GET', req.path) : null);
+
+    if (!match) return next();
+
+    const { handler, catchAll, required } = match.store as RadixStore;
+    const params: Record<string, any> = { ...match.params };
+
+    if (catchAll) {
+      const segments = (params['*'] ?? '').split('/').filter(Boolean);
+      delete params['*'];
+
+      // `/docs/*slug` does not match "/docs/", as in express mode
+      if (!segments.length && required) return next();
+      if (segments.length) params[catchAll] = segments;
+    }
+
+    req.params = params;
+    return handler(req, res, next);
+  };
+}
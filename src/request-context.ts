@@ -0,0 +1,133 @@
+import { AsyncLocalStorage, AsyncResource } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { Request, Response, NextFunction } from 'express';
+import type { Logger } from 'pino';
+
+/**
+ * Per-request context, reachable from any code running for a request
+ * (services, repositories, loggers) without passing `req` around:
+ *
+ * ```ts
+ * import { getRequestContext } from '@syntay/fastay';
+ *
+ * export async function audit(action: string) {
+ *   const ctx = getRequestContext();
+ *   await db.audit.insert({ action, requestId: ctx?.id });
+ * }
+ * ```
+ */
+export interface RequestContext {
+  /** Request id, also sent back in the `X-Request-Id` response header. */
+  id: string;
+  /** W3C trace id when the request carried a `traceparent` header. */
+  traceId?: string;
+  /** Span id of the caller from `traceparent`. */
+  parentSpanId?: string;
+  method: string;
+  url: string;
+  /** `performance.now()` when the request arrived. */
+  startTime: number;
+  /** Matched route pattern, once routing reached a route. */
+  readonly route: string | undefined;
+  /** The request's child logger (`req.log`). */
+  readonly log: Logger;
+}
+
+export interface RequestIdOptions {
+  /**
+   * Header read from the request and set on the response.
+   * Default: "x-request-id"
+   */
+  header?: string;
+
+  /**
+   * Reuses an incoming id (or `traceparent` trace id) instead of always
+   * generating one. Disable when clients are not trusted.
+   * Default: true
+   */
+  trustIncoming?: boolean;
+
+  /**
+   * Generates ids for requests without one.
+   * Default: crypto.randomUUID
+   */
+  generate?: () => string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Incoming ids are echoed and logged, so only short, printable values are reused
+const SAFE_ID = /^[\w.:@/+=-]{1,128}$/;
+const TRACEPARENT = /^[\da-f]{2}-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/;
+
+/** Context of the request being handled, or undefined outside a request. */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+function parseTraceparent(header: string | undefined) {
+  const match = header && TRACEPARENT.exec(header.trim().toLowerCase());
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return;
+
+  return { traceId: match[1], parentSpanId: match[2] };
+}
+
+/**
+ * Assigns `req.id`, echoes it in the response and runs the rest of the
+ * request inside its `RequestContext`.
+ */
+export function requestContext({
+  header = 'x-request-id',
+  trustIncoming = true,
+  generate = randomUUID,
+}: RequestIdOptions = {}) {
+  const name = header.toLowerCase();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const trace = parseTraceparent(req.headers.traceparent as string);
+    const incoming = req.headers[name];
+
+    let id = generate();
+    if (trustIncoming) {
+      if (typeof incoming === 'string' && SAFE_ID.test(incoming)) {
+        id = incoming;
+      } else if (trace) {
+        id = trace.traceId;
+      }
+    }
+
+    req.id = id;
+    res.setHeader(name, id);
+
+    const context: RequestContext = {
+      id,
+      ...trace,
+      method: req.method,
+      url: req.originalUrl,
+      startTime: performance.now(),
+      get route() {
+        return req.routePattern;
+      },
+      get log() {
+        return req.log;
+      },
+    };
+
+    storage.run(context, () => {
+      // Stream events ('data', 'end', 'finish') are emitted from the socket's
+      // async scope; bind them so body parsers and finish hooks keep the context.
+      bindEmitter(req);
+      bindEmitter(res);
+      next();
+    });
+  };
+}
+
+function bindEmitter(emitter: NodeJS.EventEmitter) {
+  const resource = new AsyncResource('FastayRequestContext');
+  const emit = emitter.emit;
+
+  emitter.emit = function (this: unknown, ...args: any[]) {
+    return resource.runInAsyncScope(emit, this, ...args);
+  } as typeof emitter.emit;
+}
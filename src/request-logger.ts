@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import { baseLogger, isJsonLogging } from './logger.js';
+import { onResponseDone } from './utils/responseDone.js';
+
+const color = {
+  gray: (s: string) => `\x1b[90m${s}\x1b[0m`,
+  green: (s: string) => `\x1b[32m${s}\x1b[0m`,
+  yellow: (s: string) => `\x1b[33m${s}\x1b[0m`,
+  red: (s: string) => `\x1b[31m${s}\x1b[0m`,
+};
+
+/**
+ * Gives every request a `req.log` child logger bound to `req.id` (see
+ * `requestContext`), and logs an access line when the response finishes.
+ * The route pattern is bound to `req.log` once a route matches (see
+ * `defineRoute`).
+ */
+export function requestLogger({ accessLog = true } = {}) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const start = performance.now();
+
+    req.log = baseLogger().child({
+      reqId: req.id,
+      method: req.method,
+      url: req.originalUrl,
+    });
+
+    if (accessLog) {
+      onResponseDone(res, (outcome) => {
+        if (outcome === 'aborted') return;
+
+        const latency = Math.round((performance.now() - start) * 100) / 100;
+        const status = res.statusCode;
+        const level = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+
+        if (isJsonLogging()) {
+          req.log[level](
+            { status, latency, req: { headers: req.headers } },
+            'request completed'
+          );
+          return;
+        }
+
+        const paint =
+          level === 'error'
+            ? color.red
+            : level === 'warn'
+              ? color.yellow
+              : color.green;
+        req.log[level](
+          ` ${color.gray('→')} ${req.method} ${req.originalUrl} ${paint(
+            String(status)
+          )} ${color.gray(`${latency}ms`)}`
+        );
+      });
+    }
+
+    next();
+  };
+}
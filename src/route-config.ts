@@ -0,0 +1,279 @@
+import express, { RequestHandler } from 'express';
+import { wrapMiddleware, MiddlewareFn } from './utils/wrapMiddleware.js';
+import { errorFormat, sendProblem, toProblem } from './problem.js';
+import { routeUploads, UploadOptions } from './utils/formDataMiddleware.js';
+import { keepRawBody, routeBodyLimit } from './utils/bodyReaders.js';
+import type { HttpMethod } from './router.js';
+import type {
+  RequestSchema,
+  ResponseSchema,
+  ValidatedRequest,
+} from './validation.js';
+import type { Response } from './types/index.js';
+
+/** Default JSON body limit applied to every route without its own `bodyLimit` */
+export const DEFAULT_BODY_LIMIT = '10mb';
+
+const ROUTE_CONFIG = Symbol.for('fastay.routeConfig');
+
+/**
+ * Cache policy sent as `Cache-Control`.
+ * A string is used verbatim; `false` means `no-store`.
+ */
+export type CachePolicy =
+  | string
+  | false
+  | {
+      maxAge?: number;
+      sMaxAge?: number;
+      staleWhileRevalidate?: number;
+      private?: boolean;
+      immutable?: boolean;
+    };
+
+/**
+ * Documentation metadata for a route, used by the OpenAPI generator.
+ * Set it through a `meta` export (shared, with per-method overrides),
+ * `defineHandler({ meta })`, or a JSDoc comment above the handler.
+ */
+export interface RouteMeta {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  deprecated?: boolean;
+  /** Leaves the operation out of the generated document. */
+  hidden?: boolean;
+}
+
+/** The `meta` export of a route module. */
+export type RouteModuleMeta = RouteMeta &
+  Partial<Record<HttpMethod, RouteMeta>>;
+
+/**
+ * Per-route configuration.
+ *
+ * @example
+ * ```ts
+ * // src/api/uploads/route.ts
+ * export const config = {
+ *   timeout: 5000,
+ *   POST: { bodyLimit: '50mb', accepts: 'application/json' },
+ * };
+ * ```
+ */
+export interface RouteConfig {
+  /** Middleware run right before the handler, after folder middleware. */
+  middleware?: MiddlewareFn | MiddlewareFn[];
+
+  /**
+   * Maximum body size, e.g. `"100kb"`. With the default global JSON
+   * parser (`CreateAppOptions.jsonParsing`), it can only lower the global
+   * limit.
+   * Default: "10mb"
+   */
+  bodyLimit?: string | number;
+
+  /** Responds with 504 if the handler has not answered within `timeout` ms. */
+  timeout?: number;
+
+  /** Accepted request content types. Requests with another body get a 415. */
+  accepts?: string | string[];
+
+  /**
+   * `req.formData()` limits, storage, streaming mode and allowed file
+   * types, merged over the app-wide `uploads` options.
+   */
+  uploads?: UploadOptions;
+
+  /** Cache policy applied to successful responses. */
+  cache?: CachePolicy;
+
+  /**
+   * Schemas for `params`, `query`, `body` and `headers`, validated before
+   * the handler runs. Invalid requests are rejected with a 422.
+   */
+  schema?: RequestSchema;
+
+  /**
+   * Response schemas and/or precompiled serializers by status code, applied
+   * to JSON bodies. Undeclared fields are stripped through the schema output
+   * and a mismatching body becomes a 500 instead of reaching the client.
+   */
+  response?: ResponseSchema;
+
+  /**
+   * Calls the handler fetch-style, with a WHATWG `Request` and the route
+   * params: `(request, { params }) => Response`. See `FetchHandler`.
+   */
+  fetch?: boolean;
+
+  /** Documentation metadata for this method. */
+  meta?: RouteMeta;
+}
+
+/** The `config` export of a route module: shared options plus per-method overrides. */
+export type RouteModuleConfig = RouteConfig &
+  Partial<Record<HttpMethod, RouteConfig>>;
+
+/**
+ * Declares a method handler together with its configuration.
+ * With a `schema`, the handler receives `params`, `query`, `body` and
+ * `headers` typed from the schemas' output.
+ *
+ * @example
+ * ```ts
+ * export const POST = defineHandler({
+ *   bodyLimit: '1mb',
+ *   timeout: 2000,
+ *   schema: { body: z.object({ name: z.string() }) },
+ *   handler: async (req) => ({ status: 201, body: { name: req.body.name } }),
+ * });
+ * ```
+ */
+export function defineHandler<S extends RequestSchema = {}, R = any>(
+  definition: Omit<RouteConfig, 'schema'> & {
+    schema?: S;
+    handler: (req: ValidatedRequest<S>, res: Response) => R;
+  }
+): (req: ValidatedRequest<S>, res: Response) => R {
+  const { handler, ...config } = definition;
+  return Object.assign(handler, { [ROUTE_CONFIG]: config });
+}
+
+const asArray = <T>(value?: T | T[]): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Resolves the configuration of one method: module-level options, then the
+ * method entry in `config`, then options attached with `defineHandler`.
+ * Middleware lists are concatenated in that order; other options override.
+ */
+export function resolveRouteConfig(
+  module: any,
+  method: HttpMethod,
+  handler: any
+): RouteConfig {
+  const { GET, POST, PUT, DELETE, PATCH, OPTIONS, HEAD, ...shared } =
+    (module.config ?? {}) as RouteModuleConfig;
+  const layers = [
+    shared,
+    (module.config ?? {})[method] ?? {},
+    handler?.[ROUTE_CONFIG] ?? {},
+  ] as RouteConfig[];
+
+  return layers.reduce<RouteConfig>(
+    (resolved, layer) => ({
+      ...resolved,
+      ...layer,
+      middleware: [
+        ...asArray(resolved.middleware),
+        ...asArray(layer.middleware),
+      ],
+    }),
+    {}
+  );
+}
+
+function formatCachePolicy(policy: CachePolicy): string {
+  if (policy === false) return 'no-store';
+  if (typeof policy === 'string') return policy;
+
+  const directives = [policy.private ? 'private' : 'public'];
+  if (policy.maxAge !== undefined) directives.push(`max-age=${policy.maxAge}`);
+  if (policy.sMaxAge !== undefined) {
+    directives.push(`s-maxage=${policy.sMaxAge}`);
+  }
+  if (policy.staleWhileRevalidate !== undefined) {
+    directives.push(`stale-while-revalidate=${policy.staleWhileRevalidate}`);
+  }
+  if (policy.immutable) directives.push('immutable');
+
+  return directives.join(', ');
+}
+
+/**
+ * Handlers applied before the route's folder middleware, in order:
+ * timeout, content-type check, upload options, JSON body parser and cache
+ * policy.
+ */
+export function configHandlers(config: RouteConfig): RequestHandler[] {
+  const handlers: RequestHandler[] = [];
+
+  if (config.timeout) {
+    const ms = config.timeout;
+    handlers.push((req, res, next) => {
+      const timer = setTimeout(() => {
+        if (res.headersSent) return;
+        if (errorFormat(req) === 'problem+json') {
+          const problem = toProblem(req, 504);
+          problem.detail = `The handler did not answer within ${ms}ms`;
+          sendProblem(res, problem);
+          return;
+        }
+        res.status(504).json({
+          error: 'Gateway Timeout',
+          path: req.originalUrl,
+          requestId: req.id,
+        });
+      }, ms);
+
+      const clear = () => clearTimeout(timer);
+      res.once('finish', clear);
+      res.once('close', clear);
+      next();
+    });
+  }
+
+  if (config.accepts) {
+    const types = asArray(config.accepts);
+    handlers.push((req, res, next) => {
+      if (req.is(types) === false) {
+        if (errorFormat(req) === 'problem+json') {
+          sendProblem(res, toProblem(req, 415));
+          return;
+        }
+        res.status(415).json({
+          error: 'Unsupported Media Type',
+          path: req.originalUrl,
+          requestId: req.id,
+        });
+        return;
+      }
+      next();
+    });
+  }
+
+  if (config.uploads) handlers.push(routeUploads(config.uploads));
+
+  const bodyLimit = config.bodyLimit ?? DEFAULT_BODY_LIMIT;
+  handlers.push(
+    routeBodyLimit(bodyLimit),
+    express.json({ limit: bodyLimit, verify: keepRawBody })
+  );
+
+  if (config.cache !== undefined) {
+    const header = formatCachePolicy(config.cache);
+    handlers.push((_req, res, next) => {
+      // Set once the status is known, so errors are not cached
+      const writeHead = res.writeHead;
+      res.writeHead = function (this: typeof res, ...args: any[]) {
+        const status = args[0] as number;
+        if (status >= 200 && status < 300 && !this.hasHeader('Cache-Control')) {
+          this.setHeader('Cache-Control', header);
+        }
+        return (writeHead as Function).apply(this, args);
+      } as typeof res.writeHead;
+      next();
+    });
+  }
+
+  return handlers;
+}
+
+/** Route-level middleware declared in `config`, wrapped like folder middleware. */
+export function configMiddlewares(config: RouteConfig): RequestHandler[] {
+  return asArray(config.middleware).map(
+    (mw) => wrapMiddleware(mw) as unknown as RequestHandler
+  );
+}
@@ -2,8 +2,46 @@ import fs from 'fs';
 import path from 'node:path';
 import mime from 'mime-types';
 import { pathToFileURL } from 'url';
-import { Application, Request, Response, NextFunction, Router } from 'express';
+import {
+  Application,
+  Request,
+  Response,
+  NextFunction,
+  Router,
+  RequestHandler,
+} from 'express';
 import { logger } from './logger.js';
+import { compileRadixRouter } from './radix-router.js';
+import { traced } from './telemetry.js';
+import { HttpError } from './errors.js';
+import {
+  FetchHandler,
+  sendFetchResponse,
+  toFetchRequest,
+} from './fetch-adapter.js';
+import { sendSse, SseSource, SseStream } from './sse.js';
+import { webSocketRoute, withWebSocket } from './websocket.js';
+import { wrapMiddleware, MiddlewareFn } from './utils/wrapMiddleware.js';
+import {
+  isMiddlewareFile,
+  loadFolderMiddleware,
+  removeFolderMiddleware,
+  replaceFolderMiddleware,
+  middlewareChain,
+  composeHandlers,
+  FolderMiddlewares,
+} from './folder-middleware.js';
+import {
+  resolveRouteConfig,
+  configHandlers,
+  configMiddlewares,
+  RouteConfig,
+} from './route-config.js';
+import {
+  ValidationError,
+  validateRequest,
+  prepareResponseBody,
+} from './validation.js';
 
 // Optimized cache with WeakMap for garbage collection
 const mimeCache = new Map<string, string>();
@@ -21,6 +59,8 @@ const HTTP_METHODS = [
   'HEAD',
 ] as const;
 
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
 /** Types */
 interface FastayCookie {
   value: string;
@@ -48,6 +88,33 @@ interface FastayResponse {
   stream?: NodeJS.ReadableStream;
   raw?: Buffer | string;
   static?: FastayStatic;
+  sse?: SseSource | SseStream;
+}
+
+/**
+ * Converts a folder name into its Express 5 route segment.
+ *
+ * - `(group)`        → omitted from the URL
+ * - `[id]`           → `:id`
+ * - `[...slug]`      → `*slug` (catch-all, one or more segments)
+ * - `[[...slug]]`    → `{/*slug}` (optional catch-all, zero or more segments)
+ */
+function toRouteSegment(segment: string): string | null {
+  if (segment.startsWith('(') && segment.endsWith(')')) return null;
+
+  if (segment.startsWith('[[...') && segment.endsWith(']]')) {
+    return `{/*${segment.slice(5, -2)}}`;
+  }
+
+  if (segment.startsWith('[...') && segment.endsWith(']')) {
+    return `*${segment.slice(4, -1)}`;
+  }
+
+  if (segment.startsWith('[') && segment.endsWith(']')) {
+    return `:${segment.slice(1, -1)}`;
+  }
+
+  return segment;
 }
 
 /** Path → route with cache */
@@ -77,25 +144,55 @@ export function filePathToRoute(
     return null;
   }
 
-  // Converts dynamic folders into Express route parameters.
-  const segments = parts.map((s) =>
-    s.startsWith('[') && s.endsWith(']') ? `:${s.slice(1, -1)}` : s
-  );
+  // `_private` folders are never routable.
+  if (parts.some((s) => s.startsWith('_'))) {
+    routeCache.set(key, null);
+    return null;
+  }
 
-  const route = `${baseRoute}/${segments.join('/')}`.replace(/\/+/g, '/');
+  // Converts dynamic folders into Express route parameters.
+  const segments = parts
+    .map(toRouteSegment)
+    .filter((s): s is string => s !== null);
+
+  const route = `${baseRoute}/${segments.join('/')}`
+    .replace(/\/+/g, '/')
+    // The optional catch-all carries its own leading slash.
+    .replace(/\/?\{\//g, '{/');
   routeCache.set(key, route);
 
   return route;
 }
 
+/**
+ * Shapes of the paths a route matches, with parameter names erased, so
+ * `/users/:id` and `/users/:userId` are recognized as the same path. An
+ * optional catch-all (`/docs{/*slug}`) matches both its parent (`/docs`)
+ * and a required catch-all (`/docs/*`).
+ */
+function routeSignatures(route: string): string[] {
+  const signature = (value: string) =>
+    value
+      .replace(/:[^/{}]+/g, ':')
+      .replace(/\*[^/{}]+/g, '*')
+      .replace(/\/+$/, '');
+
+  const optional = route.match(/\{\/\*[^}]+\}$/);
+  if (!optional) return [signature(route)];
+
+  const parent = route.slice(0, optional.index);
+  return [signature(`${parent}/*rest`), signature(parent)];
+}
+
 /** Walk recursion limit */
 export function collectFiles(dir: string): string[] {
   const result: string[] = [];
-  const stack: string[] = [dir];
+  const stack: [string, number][] = [[dir, 0]];
   const maxDepth = 20;
 
-  while (stack.length > 0 && stack.length < maxDepth) {
-    const current = stack.pop()!;
+  while (stack.length > 0) {
+    const [current, depth] = stack.pop()!;
+    if (depth > maxDepth) continue;
 
     try {
       const items = fs.readdirSync(current, { withFileTypes: true });
@@ -105,7 +202,7 @@ export function collectFiles(dir: string): string[] {
         const full = path.join(current, it.name);
 
         if (it.isDirectory()) {
-          stack.push(full);
+          stack.push([full, depth + 1]);
         } else if (/\.(ts|js|mts|mjs)$/.test(it.name)) {
           result.push(full);
         }
@@ -129,14 +226,43 @@ function getMime(filePath: string): string {
 }
 
 /** Highly optimized handler with fewer branches. */
-function wrapHandler(fn: (req: Request, res?: Response) => Promise<any> | any) {
+function wrapHandler(
+  fn: (req: Request, res?: Response) => Promise<any> | any,
+  config: Pick<RouteConfig, 'schema' | 'response' | 'fetch'> = {}
+) {
+  const { schema, response: responses, fetch: fetchStyle } = config;
+
+  // JSON responses go through the declared response schema, if any.
+  const sendJson = async (res: Response, status: number, body: unknown) => {
+    if (!responses) return res.status(status).json(body);
+
+    const prepared = await prepareResponseBody(status, body, responses);
+    if (prepared.json === undefined) {
+      return res.status(status).json(prepared.body);
+    }
+
+    return res.status(status).type('application/json').send(prepared.json);
+  };
+
   return async (request: Request, res: Response, next: NextFunction) => {
     try {
-      const result = await (fn.length >= 2 ? fn(request, res) : fn(request));
+      if (schema) await validateRequest(request as any, schema);
+
+      const result = await (fetchStyle
+        ? (fn as unknown as FetchHandler)(await toFetchRequest(request, res), {
+            params: request.params,
+          })
+        : fn.length >= 2
+          ? fn(request, res)
+          : fn(request));
 
       // If response has already been sent, exit
       if (res.headersSent || result === undefined) return;
 
+      if (result instanceof globalThis.Response) {
+        return await sendFetchResponse(res, result);
+      }
+
       //Optimized processing by type
       switch (typeof result) {
         case 'string':
@@ -163,6 +289,11 @@ function wrapHandler(fn: (req: Request, res?: Response) => Promise<any> | any) {
             }
           }
 
+          if (response.sse) {
+            if (response.status) res.status(response.status);
+            return await sendSse(request, res, response.sse);
+          }
+
           // Redirections e files
           if (response.redirect) {
             return res.redirect(response.status ?? 302, response.redirect);
@@ -194,57 +325,519 @@ function wrapHandler(fn: (req: Request, res?: Response) => Promise<any> | any) {
           }
 
           // JSON response default
-          return res
-            .status(response.status ?? 200)
-            .json(response.body ?? result);
+          return await sendJson(
+            res,
+            response.status ?? 200,
+            response.body ?? result
+          );
 
         default:
-          return res.json(result);
+          return await sendJson(res, 200, result);
       }
     } catch (err: unknown) {
       const error = err as Error;
-      logger.error(
-        `Handler Error [${request.method} ${request.path}]: ${error.message}`
-      );
+      // Invalid input is the client's error, not the handler's.
+      const clientError =
+        err instanceof ValidationError ||
+        (err instanceof HttpError && err.status < 500);
+      if (!clientError) {
+        logger.error(
+          `Handler Error [${request.method} ${request.path}]: ${error.message}`
+        );
+      }
       next(err);
     }
   };
 }
 
+/** A registered method handler, as listed in the boot route table */
+export interface RouteInfo {
+  method: HttpMethod | 'WS';
+  path: string;
+  file: string;
+}
+
+/** A route file resolved into its URL and method handlers */
+export interface RouteDefinition {
+  file: string;
+  route: string;
+  /** The imported route module (used for `meta`, docs and tooling). */
+  module: Record<string, any>;
+  methods: {
+    method: HttpMethod;
+    handler: RequestHandler;
+    config: RouteConfig;
+  }[];
+  /** Upgrade handler of the `WS` export, if any. */
+  websocket?: RequestHandler;
+}
+
+/**
+ * Swappable routing layer.
+ *
+ * The layer is mounted once on the application and dispatches to an internal
+ * root router that is rebuilt whenever a route file is added, replaced or
+ * removed, so routes can change without restarting the process.
+ */
+export interface RouteLayer {
+  /** Express handler that must be mounted once on the application. */
+  handle: RequestHandler;
+  /** Registers or replaces the routes defined by one or more files. */
+  set(...definitions: RouteDefinition[]): void;
+  /** Removes every route defined by a file. Returns false if it was unknown. */
+  remove(file: string): boolean;
+  /** Currently registered route definitions, in matching order. */
+  definitions(): RouteDefinition[];
+  /** Flat route table (method, path, source file), in matching order. */
+  routes(): RouteInfo[];
+  /** Folder `middleware.ts` stacks applied to the routes of this layer. */
+  middlewares: FolderMiddlewares;
+}
+
+/** Rank of a route segment: lower ranks are matched first. */
+function segmentRank(segment: string): number {
+  if (segment.startsWith('{*')) return 3; // optional catch-all
+  if (segment.startsWith('*')) return 2; // catch-all
+  if (segment.startsWith(':')) return 1; // param
+  return 0; // static
+}
+
+/**
+ * Orders routes by specificity: static segments before params, params
+ * before catch-alls, and deeper routes before their prefixes. Ties are
+ * broken alphabetically so the order never depends on the file system.
+ */
+export function compareRoutes(a: string, b: string): number {
+  const split = (route: string) =>
+    route.replace('{/*', '/{*').split('/').filter(Boolean);
+
+  const left = split(a);
+  const right = split(b);
+  const length = Math.min(left.length, right.length);
+
+  for (let i = 0; i < length; i++) {
+    const rank = segmentRank(left[i]) - segmentRank(right[i]);
+    if (rank !== 0) return rank;
+
+    // Different static segments never overlap: keep siblings grouped.
+    if (segmentRank(left[i]) === 0 && left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+
+  if (left.length !== right.length) {
+    // A shorter route wins only against a longer one that ends in a catch-all.
+    const longer = left.length > right.length ? left : right;
+    const tail = segmentRank(longer[length]) >= 2 ? 1 : -1;
+    return left.length > right.length ? tail : -tail;
+  }
+
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Throws when two different files resolve to the same route.
+ */
+function assertNoConflicts(
+  current: Map<string, RouteDefinition>,
+  incoming: RouteDefinition[]
+) {
+  const owners = new Map<string, string>();
+
+  for (const { file, route } of current.values()) {
+    for (const signature of routeSignatures(route)) owners.set(signature, file);
+  }
+
+  // Files being replaced no longer own their previous route.
+  for (const { file } of incoming) {
+    const previous = current.get(file);
+    if (!previous) continue;
+    for (const signature of routeSignatures(previous.route)) {
+      if (owners.get(signature) === file) owners.delete(signature);
+    }
+  }
+
+  for (const { file, route } of incoming) {
+    for (const signature of routeSignatures(route)) {
+      const owner = owners.get(signature);
+      if (owner && owner !== file) {
+        const err = new Error(
+          [
+            `Conflicting routes for "${route}":`,
+            `  - ${owner}`,
+            `  - ${file}`,
+            `Both files match the same path. Rename or move one of them.`,
+          ].join('\n')
+        );
+        err.name = 'FastayRouteConflictError';
+        throw err;
+      }
+
+      owners.set(signature, file);
+    }
+  }
+}
+
+/** Express mode: one `Router` per route file, mounted in matching order. */
+function compileExpressRouter(ordered: RouteDefinition[]): RequestHandler {
+  const root = Router({ mergeParams: true });
+
+  for (const { route, methods, websocket } of ordered) {
+    const routeRouter = Router({ mergeParams: true });
+
+    for (const { method, handler } of withWebSocket(methods, websocket)) {
+      const routerMethod = method.toLowerCase() as keyof Router;
+      (routeRouter[routerMethod] as Function)('/', handler);
+    }
+
+    root.use(route, routeRouter);
+  }
+
+  return root;
+}
+
+/**
+ * Route matching strategy.
+ * - `express`: one Express `Router` per route file (default).
+ * - `radix`: every handler in a single find-my-way radix tree.
+ */
+export type RouterMode = 'express' | 'radix';
+
+export function createRouteLayer(mode: RouterMode = 'express'): RouteLayer {
+  const compile = mode === 'radix' ? compileRadixRouter : compileExpressRouter;
+  const definitions = new Map<string, RouteDefinition>();
+  let root = compile([]);
+  let ordered: RouteDefinition[] = [];
+
+  const rebuild = () => {
+    ordered = [...definitions.values()].sort(
+      (a, b) => compareRoutes(a.route, b.route) || (a.file < b.file ? -1 : 1)
+    );
+
+    root = compile(ordered);
+  };
+
+  return {
+    handle: (req, res, next) => root(req, res, next),
+    middlewares: new Map(),
+
+    set(...items) {
+      assertNoConflicts(definitions, items);
+
+      for (const definition of items) {
+        definitions.set(definition.file, definition);
+      }
+      rebuild();
+    },
+
+    remove(file) {
+      if (!definitions.delete(file)) return false;
+      rebuild();
+      return true;
+    },
+
+    definitions() {
+      return [...ordered];
+    },
+
+    routes() {
+      return ordered.flatMap(({ file, route, methods, websocket }) => [
+        ...methods.map(({ method }) => ({ method, path: route, file })),
+        ...(websocket ? [{ method: 'WS' as const, path: route, file }] : []),
+      ]);
+    },
+  };
+}
+
+/** Resolves the directory route files are loaded from. */
+export function resolveApiDir(apiDirectory: string): string {
+  const isDev = process.env.NODE_ENV !== 'production';
+  return path.resolve(process.cwd(), isDev ? apiDirectory : 'dist/api');
+}
+
+/**
+ * Imports a route module.
+ * `fresh` bypasses both Fastay's and the ESM loader cache (used on hot reload).
+ */
+async function importRouteModule(file: string, fresh = false) {
+  // Module cache in production
+  if (
+    !fresh &&
+    process.env.NODE_ENV === 'production' &&
+    moduleCache.has(file)
+  ) {
+    return moduleCache.get(file);
+  }
+
+  const url = pathToFileURL(file).href;
+  const module = await import(fresh ? `${url}?t=${Date.now()}` : url);
+
+  if (process.env.NODE_ENV === 'production') {
+    moduleCache.set(file, module);
+  }
+
+  return module;
+}
+
+/** Builds the route definition of a loaded module. */
+function defineRoute(
+  layer: RouteLayer,
+  apiDir: string,
+  file: string,
+  module: any,
+  baseRoute: string
+): RouteDefinition | null {
+  const route = filePathToRoute(apiDir, file, baseRoute);
+  if (!route) return null;
+
+  return buildRouteDefinition(layer, apiDir, file, route, module);
+}
+
+function buildRouteDefinition(
+  layer: RouteLayer,
+  apiDir: string,
+  file: string,
+  route: string,
+  module: any
+): RouteDefinition | null {
+  const methods: RouteDefinition['methods'] = [];
+  const chain = middlewareChain(
+    layer.middlewares,
+    apiDir,
+    file
+  ) as unknown as RequestHandler[];
+
+  const matched: RequestHandler = (req, _res, next) => {
+    req.routePattern = route;
+    if (req.log) req.log = req.log.child({ route });
+    next();
+  };
+
+  // Config handlers → folder middleware → route middleware → handler
+  const register = (method: HttpMethod, fn: any) => {
+    const config = resolveRouteConfig(module, method, fn);
+    const handler = composeHandlers([
+      matched,
+      ...configHandlers(config),
+      ...chain,
+      ...configMiddlewares(config),
+      traced(`handler ${method} ${route}`, 'handler', wrapHandler(fn, config)),
+    ]);
+
+    methods.push({ method, handler, config });
+  };
+
+  // Register HTTP methods
+  for (const method of HTTP_METHODS) {
+    if (typeof module[method] === 'function') register(method, module[method]);
+  }
+
+  // Default export
+  if (typeof module.default === 'function') register('GET', module.default);
+
+  // WebSocket upgrades skip the body parsers and per-method config
+  let websocket: RequestHandler | undefined;
+  if (module.WS && typeof module.WS === 'object') {
+    websocket = composeHandlers([
+      matched,
+      ...chain,
+      ...configMiddlewares({ middleware: module.config?.middleware }),
+      webSocketRoute(module.WS),
+    ]);
+  }
+
+  return methods.length || websocket
+    ? { file, route, module, methods, websocket }
+    : null;
+}
+
+/**
+ * (Re)loads a single route file into the layer.
+ * Returns the number of handlers registered.
+ */
+export async function reloadRouteFile(
+  layer: RouteLayer,
+  apiDir: string,
+  file: string,
+  baseRoute: string
+): Promise<number> {
+  if (!filePathToRoute(apiDir, file, baseRoute)) return 0;
+
+  const module = await importRouteModule(file, true);
+  const definition = defineRoute(layer, apiDir, file, module, baseRoute);
+
+  if (!definition) {
+    layer.remove(file);
+    return 0;
+  }
+
+  layer.set(definition);
+  return definition.methods.length + (definition.websocket ? 1 : 0);
+}
+
+/**
+ * (Re)loads a folder `middleware.ts` and re-registers every route under
+ * that folder with the new stack. Pass `removed` when the file was deleted.
+ */
+export async function reloadFolderMiddleware(
+  layer: RouteLayer,
+  apiDir: string,
+  file: string,
+  baseRoute: string,
+  removed = false
+): Promise<number> {
+  if (removed) {
+    removeFolderMiddleware(layer.middlewares, file);
+  } else {
+    await loadFolderMiddleware(layer.middlewares, file, true);
+  }
+
+  const folder = path.dirname(file) + path.sep;
+  const affected = layer
+    .definitions()
+    .filter((definition) => definition.file.startsWith(folder));
+
+  for (const definition of affected) {
+    await reloadRouteFile(layer, apiDir, definition.file, baseRoute);
+  }
+
+  return affected.length;
+}
+
+/**
+ * Serves `module` at `route` (a pattern such as `/api/users/:id`) in place
+ * of the route file registered there, or as a new route under the root
+ * folder middleware. Returns a function restoring the previous state.
+ */
+export function overrideRoute(
+  layer: RouteLayer,
+  apiDir: string,
+  route: string,
+  module: Record<string, any>
+): () => void {
+  const previous = layer.definitions().find((d) => d.route === route);
+  const file = previous?.file ?? path.join(apiDir, `override:${route}`);
+  const definition = buildRouteDefinition(layer, apiDir, file, route, module);
+
+  if (!definition) {
+    const err = new Error(`Override for ${route} exports no route handler`);
+    err.name = 'FastayRouteError';
+    throw err;
+  }
+
+  layer.set(definition);
+
+  return () => {
+    if (previous) layer.set(previous);
+    else layer.remove(file);
+  };
+}
+
+/**
+ * Replaces the folder middleware of `folder` (relative to `apiDir`, `''`
+ * for the root) and re-registers the routes below it from their already
+ * imported modules. Only `layer` is affected, not other apps of the
+ * process. Returns a function restoring the previous stack.
+ */
+export function overrideFolderMiddleware(
+  layer: RouteLayer,
+  apiDir: string,
+  folder: string,
+  middleware: MiddlewareFn | MiddlewareFn[]
+): () => void {
+  const dir = path.resolve(apiDir, folder);
+  const stack = (Array.isArray(middleware) ? middleware : [middleware]).map(
+    (mw) => wrapMiddleware(mw)
+  );
+
+  const rebuild = () => {
+    const affected = layer
+      .definitions()
+      .filter((definition) => definition.file.startsWith(dir + path.sep))
+      .map((definition) =>
+        buildRouteDefinition(
+          layer,
+          apiDir,
+          definition.file,
+          definition.route,
+          definition.module
+        )
+      )
+      .filter((definition): definition is RouteDefinition => !!definition);
+
+    if (affected.length) layer.set(...affected);
+  };
+
+  const previous = replaceFolderMiddleware(layer.middlewares, dir, stack);
+  rebuild();
+
+  return () => {
+    replaceFolderMiddleware(layer.middlewares, dir, previous);
+    rebuild();
+  };
+}
+
 /** Optimized route loader with parallel import */
 export async function loadApiRoutes(
   app: Application,
   baseRoute: string,
+  apiDirectory: string,
+  layer?: RouteLayer
+): Promise<number> {
+  if (!layer) {
+    layer = createRouteLayer();
+    app.use(layer.handle);
+  }
+
+  return loadRoutes(layer, baseRoute, apiDirectory);
+}
+
+/**
+ * Discovers, imports and registers every route file of `apiDirectory`
+ * into `layer`, without touching an application. Used by `loadApiRoutes`
+ * and by the CLI commands that inspect the route tree.
+ */
+export async function loadRoutes(
+  layer: RouteLayer,
+  baseRoute: string,
   apiDirectory: string
 ): Promise<number> {
-  const isDev = process.env.NODE_ENV !== 'production';
-  const apiDir = path.join(process.cwd(), isDev ? apiDirectory : 'dist/api');
+  const apiDir = resolveApiDir(apiDirectory);
 
   if (!fs.existsSync(apiDir)) {
     logger.warn(`API directory not found: ${apiDir}`);
     return 0;
   }
 
-  const files = collectFiles(apiDir);
+  const allFiles = collectFiles(apiDir);
+  const files = allFiles.filter((file) => !isMiddlewareFile(file));
   let count = 0;
 
+  // Folder middlewares must be in place before routes are defined.
+  // A broken one fails the boot rather than leaving routes unguarded.
+  const middlewareFiles = allFiles.filter(
+    (file) =>
+      isMiddlewareFile(file) &&
+      !path
+        .relative(apiDir, file)
+        .split(path.sep)
+        .some((s) => s.startsWith('_'))
+  );
+
+  if (middlewareFiles.length) {
+    logger.group('Route Middlewares');
+    for (const file of middlewareFiles) {
+      const total = await loadFolderMiddleware(layer.middlewares, file);
+      logger.gear(`Loaded: ${path.relative(apiDir, file)} (${total})`);
+    }
+  }
+
   logger.group('Loading Routes');
 
   // Optimized parallel loading
   const modulePromises = files.map(async (file) => {
     try {
-      // Module cache in production
-      if (process.env.NODE_ENV === 'production' && moduleCache.has(file)) {
-        return { file, module: moduleCache.get(file) };
-      }
-
-      const module = await import(pathToFileURL(file).href);
-
-      if (process.env.NODE_ENV === 'production') {
-        moduleCache.set(file, module);
-      }
-
-      return { file, module };
+      return { file, module: await importRouteModule(file) };
     } catch (error) {
       logger.error(`Failed to load ${file}: ${(error as Error).message}`);
       return { file, module: null, error };
@@ -252,43 +845,26 @@ export async function loadApiRoutes(
   });
 
   const modules = await Promise.all(modulePromises);
+  const definitions: RouteDefinition[] = [];
 
   // Router per file
   for (const { file, module } of modules) {
     if (!module || (module as any).error) continue;
 
-    const route = filePathToRoute(apiDir, file, baseRoute);
-    if (!route) continue;
+    const definition = defineRoute(layer, apiDir, file, module, baseRoute);
+    if (!definition) continue;
 
-    const routeRouter = Router({ mergeParams: true });
-    let hasRoutes = false;
-
-    // Register HTTP methods
-    for (const method of HTTP_METHODS) {
-      const handler = module[method];
-      if (typeof handler === 'function') {
-        // Using type assertion is safe.
-        const routerMethod = method.toLowerCase() as keyof Router;
-        if (typeof routeRouter[routerMethod] === 'function') {
-          (routeRouter[routerMethod] as Function)('/', wrapHandler(handler));
-          logger.success(`[${method}] ${route}`);
-          hasRoutes = true;
-          count++;
-        }
-      }
-    }
+    definitions.push(definition);
+    count += definition.methods.length + (definition.websocket ? 1 : 0);
+  }
 
-    // Default export
-    if (typeof module.default === 'function') {
-      routeRouter.get('/', wrapHandler(module.default));
-      logger.success(`[GET] ${route}`);
-      hasRoutes = true;
-      count++;
-    }
+  layer.set(...definitions);
 
-    if (hasRoutes) {
-      app.use(route, routeRouter);
-    }
+  // Route table, in the order requests are matched
+  for (const { method, path: route, file } of layer.routes()) {
+    logger.success(
+      `${`[${method}]`.padEnd(9)} ${route.padEnd(32)} ${path.relative(apiDir, file)}`
+    );
   }
 
   return count;
@@ -0,0 +1,204 @@
+import { once } from 'node:events';
+import { Request, Response } from 'express';
+import { logger } from './logger.js';
+
+/**
+ * Server-Sent Events. Return `{ sse }` from a handler with an async
+ * iterable of events, or a function producing one:
+ *
+ * ```ts
+ * export async function GET() {
+ *   return sse(async function* ({ lastEventId, signal }) {
+ *     for await (const order of orders.since(lastEventId, { signal })) {
+ *       yield { id: order.id, event: 'order', data: order };
+ *     }
+ *   });
+ * }
+ * ```
+ *
+ * The iterator is stopped (`return()`, running its `finally` blocks) and
+ * `signal` aborted when the client disconnects.
+ */
+
+export interface SseEvent {
+  /** Event payload; non-strings are sent as JSON. */
+  data?: unknown;
+  /** Event type, dispatched to `addEventListener(event)` on the client. */
+  event?: string;
+  /** Sent back by the client as `Last-Event-ID` when it reconnects. */
+  id?: string | number;
+  /** Reconnection delay for the client, in ms. */
+  retry?: number;
+  /** Comment line, ignored by clients. */
+  comment?: string;
+}
+
+export interface SseContext {
+  /** `Last-Event-ID` of a reconnecting client, to resume from. */
+  lastEventId?: string;
+  /** Aborted when the client disconnects. */
+  signal: AbortSignal;
+}
+
+export type SseSource =
+  AsyncIterable<SseEvent> | ((context: SseContext) => AsyncIterable<SseEvent>);
+
+export interface SseOptions {
+  /**
+   * Interval of keep-alive comments, in ms, so proxies do not close an
+   * idle stream. `false` disables them.
+   * Default: 15000
+   */
+  heartbeat?: number | false;
+
+  /** Reconnection delay sent to the client before the first event, in ms. */
+  retry?: number;
+}
+
+export interface SseStream extends SseOptions {
+  source: SseSource;
+}
+
+/** Builds the `{ sse }` response of an event stream. */
+export function sse(source: SseSource, options: SseOptions = {}) {
+  return { sse: { ...options, source } as SseStream };
+}
+
+const DEFAULT_HEARTBEAT = 15_000;
+
+// App → stop functions of its open streams, ended on shutdown
+const openStreams = new WeakMap<object, Set<() => void>>();
+
+/**
+ * Ends every open event stream of `app`. Called on shutdown, so clients
+ * reconnect elsewhere instead of holding the server open.
+ */
+export function closeSseStreams(app: object) {
+  for (const stop of openStreams.get(app) ?? []) stop();
+}
+
+// Field values cannot span lines
+const singleLine = (value: string | number) =>
+  String(value).replace(/[\r\n]/g, '');
+
+function formatEvent(event: SseEvent): string {
+  let out = '';
+
+  if (event.comment !== undefined) {
+    for (const line of event.comment.split(/\r\n|\r|\n/)) out += `: ${line}\n`;
+  }
+  if (event.id !== undefined) out += `id: ${singleLine(event.id)}\n`;
+  if (event.event !== undefined) out += `event: ${singleLine(event.event)}\n`;
+  if (event.retry !== undefined) out += `retry: ${Math.floor(event.retry)}\n`;
+  if (event.data !== undefined) {
+    const text =
+      typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+    for (const line of text.split(/\r\n|\r|\n/)) out += `data: ${line}\n`;
+  }
+
+  return `${out}\n`;
+}
+
+const isStream = (value: SseSource | SseStream): value is SseStream =>
+  typeof value === 'object' && 'source' in value;
+
+/**
+ * Streams events to the client until the source ends or the client
+ * disconnects. Response `status` and `headers` were set by the caller.
+ */
+export async function sendSse(
+  req: Request,
+  res: Response,
+  value: SseSource | SseStream
+) {
+  const {
+    source,
+    heartbeat = DEFAULT_HEARTBEAT,
+    retry,
+  } = isStream(value) ? value : ({ source: value } as SseStream);
+
+  const controller = new AbortController();
+  const lastEventId = req.get('last-event-id');
+
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  // no-transform keeps compression middleware and proxies from buffering
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  req.socket?.setNoDelay?.(true);
+  req.socket?.setTimeout?.(0);
+
+  const write = (chunk: string) => {
+    const ok = res.write(chunk);
+    // Flushes compression middleware, when installed
+    (res as any).flush?.();
+    return ok;
+  };
+
+  const iterable =
+    typeof source === 'function'
+      ? source({ lastEventId, signal: controller.signal })
+      : source;
+  const iterator = iterable[Symbol.asyncIterator]();
+
+  let closed = false;
+  const onClose = () => {
+    if (closed) return;
+    closed = true;
+    controller.abort();
+    // A `finally` block of the source may throw while it is stopped
+    Promise.resolve()
+      .then(() => iterator.return?.())
+      .catch((err: unknown) => {
+        logger.error(
+          `SSE Error [${req.method} ${req.originalUrl}]: ${(err as Error).message}`
+        );
+      });
+  };
+  res.once('close', onClose);
+
+  if (!openStreams.has(req.app)) openStreams.set(req.app, new Set());
+  const streams = openStreams.get(req.app)!;
+  streams.add(onClose);
+
+  const timer =
+    heartbeat === false
+      ? undefined
+      : setInterval(() => write(': heartbeat\n\n'), heartbeat);
+
+  try {
+    if (retry !== undefined) write(`retry: ${Math.floor(retry)}\n\n`);
+
+    // Stops waiting on a source stuck in an `await` when the client leaves
+    const disconnected = new Promise<IteratorResult<SseEvent>>((resolve) =>
+      controller.signal.addEventListener('abort', () =>
+        resolve({ done: true, value: undefined })
+      )
+    );
+
+    while (!closed) {
+      const { value: event, done } = await Promise.race([
+        iterator.next(),
+        disconnected,
+      ]);
+      if (done || closed) break;
+
+      if (!write(formatEvent(event))) {
+        await once(res, 'drain', { signal: controller.signal }).catch(() => {});
+      }
+    }
+  } catch (err: unknown) {
+    // Headers are sent; all that is left is to end the stream
+    if (!closed) {
+      logger.error(
+        `SSE Error [${req.method} ${req.originalUrl}]: ${(err as Error).message}`
+      );
+    }
+  } finally {
+    clearInterval(timer);
+    streams.delete(onClose);
+    res.off('close', onClose);
+    if (!res.writableEnded) res.end();
+  }
+}
@@ -0,0 +1,260 @@
+import type * as Otel from '@opentelemetry/api';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { getRequestContext } from './request-context.js';
+import { onResponseDone } from './utils/responseDone.js';
+
+/**
+ * Opt-in OpenTelemetry instrumentation, built on `@opentelemetry/api`
+ * (an optional peer dependency).
+ *
+ * Every request gets a server span named after its route pattern
+ * (`GET /api/users/:id`), with child spans for `createMiddleware`
+ * middleware and the route handler. Spans and metrics go to the given
+ * providers, so their exporters decide where they end up:
+ *
+ * ```ts
+ * const exporter = new InMemorySpanExporter();
+ * const tracerProvider = new BasicTracerProvider({
+ *   spanProcessors: [new SimpleSpanProcessor(exporter)],
+ * });
+ *
+ * await createApp({ telemetry: { tracerProvider } });
+ * ```
+ *
+ * Metrics follow the HTTP semantic conventions:
+ * `http.server.request.duration` (histogram, seconds) and
+ * `http.server.active_requests` (up-down counter).
+ */
+
+/**
+ * An OpenTelemetry `TracerProvider`. Declared locally so the public types
+ * do not require `@opentelemetry/api` to be installed.
+ */
+export interface TelemetryTracerProvider {
+  getTracer(name: string, version?: string): object;
+}
+
+/** An OpenTelemetry `MeterProvider`, see `TelemetryTracerProvider`. */
+export interface TelemetryMeterProvider {
+  getMeter(name: string, version?: string): object;
+}
+
+export interface TelemetryOptions {
+  /**
+   * Provider receiving request spans.
+   * Default: the globally registered provider
+   */
+  tracerProvider?: TelemetryTracerProvider;
+
+  /**
+   * Provider receiving request metrics.
+   * Default: the globally registered provider
+   */
+  meterProvider?: TelemetryMeterProvider;
+
+  /**
+   * Instrumentation scope name of the tracer and meter.
+   * Default: "@syntay/fastay"
+   */
+  name?: string;
+}
+
+type ActiveRequest = {
+  api: typeof Otel;
+  tracer: Otel.Tracer;
+  context: Otel.Context;
+  error?: unknown;
+};
+
+// Request → its server span context, while telemetry is enabled
+const active = new WeakMap<object, ActiveRequest>();
+
+const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.075, 0.1, 0.25, 0.5, 0.75, 1, 2.5, 5, 7.5, 10,
+];
+
+/**
+ * Loads `@opentelemetry/api` and returns the middleware opening the server
+ * span and recording request metrics.
+ */
+export async function createTelemetry(
+  options: TelemetryOptions = {}
+): Promise<RequestHandler> {
+  let api: typeof Otel;
+  try {
+    api = await import('@opentelemetry/api');
+  } catch {
+    const err = new Error(
+      '`telemetry` requires @opentelemetry/api: npm install @opentelemetry/api'
+    );
+    err.name = 'FastayTelemetryError';
+    throw err;
+  }
+
+  const name = options.name ?? '@syntay/fastay';
+  const tracer = (
+    (options.tracerProvider as Otel.TracerProvider | undefined) ??
+    api.trace.getTracerProvider()
+  ).getTracer(name);
+  const meter = (
+    (options.meterProvider as Otel.MeterProvider | undefined) ??
+    api.metrics.getMeterProvider()
+  ).getMeter(name);
+
+  const duration = meter.createHistogram('http.server.request.duration', {
+    unit: 's',
+    description: 'Duration of HTTP server requests.',
+    advice: { explicitBucketBoundaries: DURATION_BUCKETS },
+  });
+  const inFlight = meter.createUpDownCounter('http.server.active_requests', {
+    unit: '{request}',
+    description: 'Number of HTTP server requests in flight.',
+  });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const start = performance.now();
+    const method = req.method;
+    const parent = parentContext(api, req);
+
+    // Renamed to the route pattern once routing has matched
+    const span = tracer.startSpan(
+      method,
+      {
+        kind: api.SpanKind.SERVER,
+        attributes: {
+          'http.request.method': method,
+          'url.path': req.path,
+          'url.scheme': req.protocol,
+          ...(req.headers['user-agent'] && {
+            'user_agent.original': req.headers['user-agent'],
+          }),
+        },
+      },
+      parent
+    );
+
+    const entry: ActiveRequest = {
+      api,
+      tracer,
+      context: api.trace.setSpan(parent, span),
+    };
+    active.set(req, entry);
+    inFlight.add(1, { 'http.request.method': method });
+
+    onResponseDone(res, (outcome) => {
+      const route = req.routePattern;
+      const status = res.statusCode;
+      const aborted = outcome === 'aborted';
+
+      if (route) {
+        span.updateName(`${method} ${route}`);
+        span.setAttribute('http.route', route);
+      }
+      span.setAttribute('http.response.status_code', status);
+
+      if (status >= 500 || aborted) {
+        if (entry.error) span.recordException(entry.error as Error);
+        span.setStatus({
+          code: api.SpanStatusCode.ERROR,
+          message: aborted ? 'Request aborted' : undefined,
+        });
+      }
+      span.end();
+
+      inFlight.add(-1, { 'http.request.method': method });
+      duration.record((performance.now() - start) / 1000, {
+        'http.request.method': method,
+        'http.response.status_code': status,
+        ...(route && { 'http.route': route }),
+        ...((status >= 500 || aborted) && {
+          'error.type': aborted ? 'aborted' : String(status),
+        }),
+      });
+    });
+
+    api.context.with(entry.context, next);
+  };
+}
+
+/**
+ * Remote parent from the registered propagator, falling back to the
+ * `traceparent` already parsed into the request context.
+ */
+function parentContext(api: typeof Otel, req: Request): Otel.Context {
+  const extracted = api.propagation.extract(api.ROOT_CONTEXT, req.headers);
+  if (api.trace.getSpanContext(extracted)) return extracted;
+
+  const context = getRequestContext();
+  if (!context?.traceId || !context.parentSpanId) return api.ROOT_CONTEXT;
+
+  return api.trace.setSpanContext(api.ROOT_CONTEXT, {
+    traceId: context.traceId,
+    spanId: context.parentSpanId,
+    traceFlags: api.TraceFlags.SAMPLED,
+    isRemote: true,
+  });
+}
+
+/**
+ * Runs `handler` in a child span of the request's server span. The span
+ * ends when the handler calls `next` or the response finishes; errors are
+ * recorded on it. A no-op when telemetry is disabled.
+ */
+export function traced(
+  name: string,
+  type: 'middleware' | 'handler',
+  handler: RequestHandler
+): RequestHandler {
+  return (req, res, next) => {
+    const entry = active.get(req);
+    if (!entry) return handler(req, res, next);
+
+    const { api, tracer } = entry;
+    const span = tracer.startSpan(
+      name,
+      {
+        attributes: {
+          'fastay.type': type,
+          ...(req.routePattern && { 'http.route': req.routePattern }),
+        },
+      },
+      entry.context
+    );
+
+    let ended = false;
+    const end = (err?: unknown) => {
+      if (ended) return;
+      ended = true;
+      res.off('finish', onFinish);
+
+      if (err) {
+        span.recordException(err as Error);
+        span.setStatus({
+          code: api.SpanStatusCode.ERROR,
+          message: (err as Error).message,
+        });
+        entry.error ??= err;
+      }
+      span.end();
+    };
+    const onFinish = () => end();
+    res.once('finish', onFinish);
+
+    try {
+      const result: unknown = api.context.with(
+        api.trace.setSpan(entry.context, span),
+        () =>
+          handler(req, res, (err?: unknown) => {
+            end(err && err !== 'route' && err !== 'router' ? err : undefined);
+            next(err);
+          })
+      );
+
+      if (result instanceof Promise) result.catch(end);
+      return result as void;
+    } catch (err) {
+      end(err);
+      throw err;
+    }
+  };
+}
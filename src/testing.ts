@@ -0,0 +1,486 @@
+import assert from 'node:assert';
+import { randomUUID } from 'node:crypto';
+import {
+  IncomingMessage,
+  ServerResponse,
+  OutgoingHttpHeaders,
+} from 'node:http';
+import { Socket } from 'node:net';
+import { Duplex } from 'node:stream';
+import mime from 'mime-types';
+import { serialize } from 'cookie';
+import { createApp, CreateAppOptions, FastayApp } from './app.js';
+import { RequestCookies } from './utils/cookies.js';
+import type { MiddlewareFn } from './utils/wrapMiddleware.js';
+
+/**
+ * In-process test client.
+ *
+ * Builds the application with `createApp` in "test" mode and dispatches
+ * requests straight into it, without opening a socket:
+ *
+ * ```ts
+ * const client = await createTestClient({ apiDir: 'src/api' });
+ *
+ * await client.post('/api/login').send({ user: 'ana' }).expect(200);
+ * await client.get('/api/me').expect(200, { user: 'ana' }); // session cookie sent back
+ *
+ * client.mockRoute('/api/billing', { GET: () => ({ body: [] }) });
+ * client.restoreMocks();
+ * ```
+ */
+
+export interface TestClientOptions extends Omit<
+  CreateAppOptions,
+  'mode' | 'port'
+> {
+  /**
+   * Time in milliseconds a request may take before the test fails.
+   * Default: 5000
+   */
+  timeout?: number;
+}
+
+export interface TestResponse {
+  status: number;
+  headers: OutgoingHttpHeaders;
+  /** Parsed JSON for JSON responses, the text otherwise. */
+  body: any;
+  text: string;
+  raw: Buffer;
+}
+
+type Expectation = (res: TestResponse) => void;
+
+type MultipartPart = {
+  name: string;
+  value: Buffer | string;
+  filename?: string;
+  contentType?: string;
+};
+
+/** A pending request. Configure it fluently, then `await` it. */
+export class TestRequest implements PromiseLike<TestResponse> {
+  private headers: Record<string, string> = {};
+  private search = new URLSearchParams();
+  private body?: Buffer;
+  private parts: MultipartPart[] = [];
+  private expectations: Expectation[] = [];
+  private pending?: Promise<TestResponse>;
+
+  constructor(
+    private app: FastayApp,
+    private method: string,
+    private url: string,
+    private jar: RequestCookies,
+    private timeout: number
+  ) {}
+
+  /** Sets request headers. */
+  set(name: string, value: string): this;
+  set(headers: Record<string, string>): this;
+  set(name: string | Record<string, string>, value?: string) {
+    const entries = typeof name === 'string' ? { [name]: value! } : name;
+    for (const [key, val] of Object.entries(entries)) {
+      this.headers[key.toLowerCase()] = val;
+    }
+    return this;
+  }
+
+  /** Appends query string params. */
+  query(params: Record<string, string | number | boolean>) {
+    for (const [key, value] of Object.entries(params)) {
+      this.search.append(key, String(value));
+    }
+    return this;
+  }
+
+  /** Sends a body. Objects are sent as JSON. */
+  send(body: Buffer | string | object) {
+    if (Buffer.isBuffer(body) || typeof body === 'string') {
+      this.body = Buffer.from(body);
+      this.headers['content-type'] ??= 'text/plain';
+    } else {
+      this.body = Buffer.from(JSON.stringify(body));
+      this.headers['content-type'] ??= 'application/json';
+    }
+    return this;
+  }
+
+  /** Adds a multipart/form-data field. */
+  field(name: string, value: string | number | boolean) {
+    this.parts.push({ name, value: String(value) });
+    return this;
+  }
+
+  /**
+   * Adds a multipart/form-data file. The content type is derived from
+   * `filename` when not given.
+   */
+  attach(
+    name: string,
+    content: Buffer | string,
+    filename = name,
+    contentType?: string
+  ) {
+    this.parts.push({
+      name,
+      value: content,
+      filename,
+      contentType:
+        contentType || mime.lookup(filename) || 'application/octet-stream',
+    });
+    return this;
+  }
+
+  /**
+   * Asserts on the response once the request is awaited:
+   * - `expect(200)` / `expect(200, body)`: status, and body deep-equality
+   * - `expect('content-type', /json/)`: a header value
+   * - `expect(body)`: body deep-equality
+   * - `expect((res) => ...)`: a custom assertion
+   */
+  expect(status: number, body?: unknown): this;
+  expect(header: string, value: string | RegExp): this;
+  expect(body: object): this;
+  expect(fn: Expectation): this;
+  expect(first: unknown, second?: unknown) {
+    if (typeof first === 'function') {
+      this.expectations.push(first as Expectation);
+    } else if (typeof first === 'number') {
+      this.expectations.push((res) =>
+        assert.strictEqual(
+          res.status,
+          first,
+          `expected ${first}, got ${res.status}: ${res.text}`
+        )
+      );
+      if (second !== undefined) this.expectBody(second);
+    } else if (typeof first === 'string' && second !== undefined) {
+      const name = first.toLowerCase();
+      this.expectations.push((res) => {
+        const actual = String(res.headers[name] ?? '');
+        if (second instanceof RegExp) {
+          assert.match(actual, second, `header ${name}: ${actual}`);
+        } else {
+          assert.strictEqual(actual, String(second), `header ${name}`);
+        }
+      });
+    } else {
+      this.expectBody(first);
+    }
+    return this;
+  }
+
+  then<T = TestResponse, E = never>(
+    onfulfilled?: ((value: TestResponse) => T | PromiseLike<T>) | null,
+    onrejected?: ((reason: any) => E | PromiseLike<E>) | null
+  ): Promise<T | E> {
+    this.pending ??= this.run();
+    return this.pending.then(onfulfilled, onrejected);
+  }
+
+  catch<E = never>(
+    onrejected?: ((reason: any) => E | PromiseLike<E>) | null
+  ): Promise<TestResponse | E> {
+    return this.then(undefined, onrejected);
+  }
+
+  private expectBody(expected: unknown) {
+    this.expectations.push((res) => assert.deepStrictEqual(res.body, expected));
+  }
+
+  private async run() {
+    const headers: Record<string, string> = { ...this.headers };
+    let body = this.body;
+
+    if (this.parts.length) {
+      const boundary = `----fastay${randomUUID().replace(/-/g, '')}`;
+      body = multipartBody(this.parts, boundary);
+      headers['content-type'] = `multipart/form-data; boundary=${boundary}`;
+    }
+
+    if (body) headers['content-length'] = String(body.length);
+    headers.host ??= 'localhost';
+
+    const cookie = cookieHeader(this.jar);
+    if (cookie && !headers.cookie) headers.cookie = cookie;
+
+    const query = this.search.toString();
+    const url = query
+      ? `${this.url}${this.url.includes('?') ? '&' : '?'}${query}`
+      : this.url;
+
+    const res = await dispatch(
+      this.app,
+      this.method,
+      url,
+      headers,
+      body,
+      this.timeout
+    );
+    storeCookies(this.jar, res.headers['set-cookie']);
+
+    for (const expectation of this.expectations) expectation(res);
+    return res;
+  }
+}
+
+export interface TestClient {
+  app: FastayApp;
+
+  /**
+   * Cookies sent with every request. `Set-Cookie` responses update it;
+   * it can also be filled by hand with `cookies.set(name, value)`.
+   */
+  cookies: RequestCookies;
+
+  request(method: string, url: string): TestRequest;
+  get(url: string): TestRequest;
+  post(url: string): TestRequest;
+  put(url: string): TestRequest;
+  patch(url: string): TestRequest;
+  delete(url: string): TestRequest;
+  head(url: string): TestRequest;
+  options(url: string): TestRequest;
+
+  /** Serves `module` at a route pattern until `restoreMocks()`. */
+  mockRoute(route: string, module: Record<string, any>): void;
+
+  /**
+   * Replaces the `middleware.ts` stack of a folder relative to `apiDir`
+   * ("" for the root) until `restoreMocks()`.
+   */
+  mockMiddleware(
+    folder: string,
+    middleware: MiddlewareFn | MiddlewareFn[]
+  ): void;
+
+  /** Restores every mocked route and middleware, latest first. */
+  restoreMocks(): void;
+
+  /** Restores the mocks, then runs the application's `onClose` cleanups. */
+  close(): Promise<void>;
+}
+
+/**
+ * Creates an application in "test" mode and a client dispatching requests
+ * to it in memory.
+ */
+export async function createTestClient(
+  opts: TestClientOptions = {}
+): Promise<TestClient> {
+  const { timeout = 5000, ...options } = opts;
+  const { app, close } = await createApp({ ...options, mode: 'test' });
+
+  const cookies = new RequestCookies();
+  const restores: (() => void)[] = [];
+  const restoreMocks = () => {
+    while (restores.length) restores.pop()!();
+  };
+
+  const request = (method: string, url: string) =>
+    new TestRequest(app, method.toUpperCase(), url, cookies, timeout);
+
+  return {
+    app,
+    cookies,
+    request,
+    get: (url) => request('GET', url),
+    post: (url) => request('POST', url),
+    put: (url) => request('PUT', url),
+    patch: (url) => request('PATCH', url),
+    delete: (url) => request('DELETE', url),
+    head: (url) => request('HEAD', url),
+    options: (url) => request('OPTIONS', url),
+
+    mockRoute(route, module) {
+      restores.push(app.fastay.overrideRoute(route, module));
+    },
+
+    mockMiddleware(folder, middleware) {
+      restores.push(app.fastay.overrideMiddleware(folder, middleware));
+    },
+
+    restoreMocks,
+
+    close() {
+      restoreMocks();
+      return close();
+    },
+  };
+}
+
+/**
+ * Runs one request through the application with an unconnected socket,
+ * collecting whatever the response writes.
+ */
+function dispatch(
+  app: FastayApp,
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Buffer | undefined,
+  timeout: number
+): Promise<TestResponse> {
+  return new Promise((resolve, reject) => {
+    const socket = new Duplex({
+      read() {},
+      write(_chunk, _encoding, callback) {
+        callback();
+      },
+    });
+
+    const req = new IncomingMessage(socket as Socket);
+    req.method = method;
+    req.url = url;
+    req.httpVersion = '1.1';
+    req.httpVersionMajor = 1;
+    req.httpVersionMinor = 1;
+    req.headers = headers;
+    req.rawHeaders = Object.entries(headers).flat();
+    if (body) req.push(body);
+    req.push(null);
+
+    const res = new ServerResponse(req);
+    const chunks: Buffer[] = [];
+
+    const collect = (chunk: any, encoding: any) => {
+      if (chunk == null || typeof chunk === 'function') return;
+      chunks.push(
+        typeof chunk === 'string'
+          ? Buffer.from(
+              chunk,
+              typeof encoding === 'string'
+                ? (encoding as BufferEncoding)
+                : 'utf8'
+            )
+          : Buffer.from(chunk)
+      );
+    };
+
+    res.write = function (
+      this: ServerResponse,
+      chunk: any,
+      encoding?: any,
+      callback?: any
+    ) {
+      if (!this.headersSent) this.writeHead(this.statusCode);
+      collect(chunk, encoding);
+      (typeof encoding === 'function' ? encoding : callback)?.();
+      return true;
+    } as typeof res.write;
+
+    res.end = function (
+      this: ServerResponse,
+      chunk?: any,
+      encoding?: any,
+      callback?: any
+    ) {
+      if (this.writableEnded) return this;
+      if (!this.headersSent) this.writeHead(this.statusCode);
+      collect(chunk, encoding);
+      (this as any).finished = true;
+
+      const done = [chunk, encoding, callback].find(
+        (arg) => typeof arg === 'function'
+      );
+      process.nextTick(() => {
+        done?.();
+        this.emit('prefinish');
+        this.emit('finish');
+        this.emit('close');
+      });
+      return this;
+    } as typeof res.end;
+
+    const timer = setTimeout(() => {
+      const err = new Error(
+        `${method} ${url} did not respond within ${timeout}ms`
+      );
+      err.name = 'FastayTestTimeoutError';
+      reject(err);
+    }, timeout);
+
+    res.once('finish', () => {
+      clearTimeout(timer);
+
+      const raw = Buffer.concat(chunks);
+      const text = raw.toString('utf8');
+      const type = String(res.getHeader('content-type') ?? '');
+
+      let parsed: any = text;
+      if (/[/+]json\b/.test(type) && text) {
+        try {
+          parsed = JSON.parse(text);
+        } catch {
+          // Keep the text for malformed JSON
+        }
+      }
+
+      resolve({
+        status: res.statusCode,
+        headers: res.getHeaders(),
+        body: parsed,
+        text,
+        raw,
+      });
+    });
+
+    app(req as any, res as any);
+  });
+}
+
+function multipartBody(parts: MultipartPart[], boundary: string): Buffer {
+  const chunks: Buffer[] = [];
+
+  for (const part of parts) {
+    let head = `--${boundary}\r\nContent-Disposition: form-data; name="${part.name}"`;
+    if (part.filename !== undefined) {
+      head += `; filename="${part.filename}"\r\nContent-Type: ${part.contentType}`;
+    }
+
+    chunks.push(
+      Buffer.from(`${head}\r\n\r\n`),
+      Buffer.from(part.value),
+      Buffer.from('\r\n')
+    );
+  }
+
+  chunks.push(Buffer.from(`--${boundary}--\r\n`));
+  return Buffer.concat(chunks);
+}
+
+function cookieHeader(jar: RequestCookies): string {
+  return Object.entries(jar.all())
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => serialize(name, value!))
+    .join('; ');
+}
+
+/** Applies `Set-Cookie` headers to the jar, dropping expired cookies. */
+function storeCookies(
+  jar: RequestCookies,
+  header: string | string[] | number | undefined
+) {
+  if (header === undefined) return;
+
+  for (const line of Array.isArray(header) ? header : [String(header)]) {
+    const [pair, ...attributes] = line.split(';');
+    const index = pair.indexOf('=');
+    if (index < 1) continue;
+
+    const name = pair.slice(0, index).trim();
+    const value = decodeURIComponent(pair.slice(index + 1).trim());
+
+    const expired = attributes.some((attribute) => {
+      const [key, val = ''] = attribute.trim().split('=');
+      if (key.toLowerCase() === 'max-age') return Number(val) <= 0;
+      if (key.toLowerCase() === 'expires') return Date.parse(val) <= Date.now();
+      return false;
+    });
+
+    if (expired) jar.delete(name);
+    else jar.set(name, value);
+  }
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { collectFiles, filePathToRoute } from './router.js';
+
+/**
+ * Default output of the generated route types, relative to the project.
+ * Add it to `include` in tsconfig.json by its full name: TypeScript skips
+ * dot-folders matched by globs.
+ */
+export const ROUTE_TYPES_FILE = '.fastay/types.d.ts';
+
+/**
+ * TypeScript type of `req.params` for a route pattern:
+ * `:id` → `string`, `*slug` → `string[]`, `{/*slug}` → optional `string[]`.
+ */
+export function routeParamsType(route: string): string {
+  const fields: string[] = [];
+
+  for (const [, name] of route.matchAll(/\{\/\*([^}]+)\}/g)) {
+    fields.push(`${JSON.stringify(name)}?: string[]`);
+  }
+  for (const [, name] of route
+    .replace(/\{\/\*[^}]+\}/g, '')
+    .matchAll(/\*([^/{}]+)/g)) {
+    fields.push(`${JSON.stringify(name)}: string[]`);
+  }
+  for (const [, name] of route.matchAll(/:([^/{}]+)/g)) {
+    fields.push(`${JSON.stringify(name)}: string`);
+  }
+
+  return fields.length ? `{ ${fields.join('; ')} }` : '{}';
+}
+
+/**
+ * Source of the route types declaration file for a set of route patterns.
+ * It extends the global `FastayRouteParams`, which `RouteHandler<Route>` reads.
+ */
+export function generateRouteTypes(routes: string[]): string {
+  const entries = [...new Set(routes)]
+    .sort()
+    .map((route) => `    ${JSON.stringify(route)}: ${routeParamsType(route)};`);
+
+  return [
+    '// Generated by Fastay. Do not edit.',
+    'export {};',
+    '',
+    'declare global {',
+    '  interface FastayRouteParams {',
+    ...entries,
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Scans `apiDir` for route files and writes their types to `outFile`.
+ * Only file paths are read: route modules are not imported.
+ * The file is left untouched when its content did not change.
+ */
+export function writeRouteTypes(
+  apiDir: string,
+  baseRoute: string,
+  outFile: string = ROUTE_TYPES_FILE
+): { file: string; routes: number } {
+  const routes = fs.existsSync(apiDir)
+    ? collectFiles(apiDir)
+        .map((file) => filePathToRoute(apiDir, file, baseRoute))
+        .filter((route): route is string => route !== null)
+    : [];
+
+  const file = path.resolve(process.cwd(), outFile);
+  const content = generateRouteTypes(routes);
+
+  if (!fs.existsSync(file) || fs.readFileSync(file, 'utf-8') !== content) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  return { file, routes: routes.length };
+}
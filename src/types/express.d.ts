@@ -4,5 +4,11 @@ declare module 'express-serve-static-core' {
   interface Request {
     cookies: import('./index').RequestCookies;
     formData: () => Promise<FormData>;
+    json: <T = any>() => Promise<T>;
+    text: () => Promise<string>;
+    arrayBuffer: () => Promise<ArrayBuffer>;
+    id: string;
+    log: import('pino').Logger;
+    routePattern?: string;
   }
 }
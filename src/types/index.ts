@@ -1,4 +1,5 @@
 import './express';
+import type { Request } from './request.js';
 import {
   // Request as ExpressRequest,
   Response as ExpressResponse,
@@ -54,13 +55,39 @@ declare global {
     file?: { path: string; filename?: string; options?: any };
     stream?: NodeJS.ReadableStream;
     raw?: Buffer | string;
+    sse?: import('../sse.js').SseSource | import('../sse.js').SseStream;
   };
+
+  /**
+   * Params of every route, keyed by route pattern.
+   * Filled in by the generated `.fastay/types.d.ts` (see `fastay types`).
+   */
+  interface FastayRouteParams {}
 }
 
-export type RouteHandler =
-  | (() => FastayResponse | any)
-  | ((req: Request) => FastayResponse | any)
-  | ((req: Request, res: Response) => FastayResponse | any);
+/** A route pattern known to the generated route types. */
+export type RoutePath = keyof FastayRouteParams;
+
+/** `req.params` of a route pattern; `any` when no route is given. */
+export type RouteParams<R extends RoutePath = never> = [R] extends [never]
+  ? any
+  : FastayRouteParams[R];
+
+/**
+ * A route method handler. Handlers may declare fewer parameters.
+ *
+ * @example
+ * ```ts
+ * // src/api/users/[id]/route.ts
+ * export const GET: RouteHandler<'/api/users/:id'> = (req) => {
+ *   return { body: { id: req.params.id } };
+ * };
+ * ```
+ */
+export type RouteHandler<R extends RoutePath = never> = (
+  req: Request<RouteParams<R>>,
+  res: Response
+) => FastayResponse | any;
 
 // export interface CookieItem {
 //   value: string;
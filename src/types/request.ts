@@ -1,5 +1,6 @@
 import * as http from 'http';
 import * as net from 'net';
+import type { Logger } from 'pino';
 
 export interface CookieItem {
   value: string;
@@ -31,8 +32,12 @@ export interface RequestCookies {
  * Interface representing the Fastay Request object
  * @interface Request
  * @extends http.IncomingMessage
+ * @template TParams - Type of `req.params` (e.g. inferred from a params schema)
+ * @template TQuery - Type of `req.query`
+ * @template TBody - Type of `req.body`
  */
-export interface Request extends http.IncomingMessage {
+export interface Request<TParams = any, TQuery = any, TBody = any>
+  extends http.IncomingMessage {
   // ==================== CORE EXPRESS PROPERTIES ====================
 
   /**
@@ -55,7 +60,7 @@ export interface Request extends http.IncomingMessage {
    * By default, it is undefined and is populated when you use body-parsing middleware such as express.json() or express.urlencoded().
    * @type {any}
    */
-  body: any;
+  body: TBody;
 
   /**
    * When using cookie-parser middleware, this property is an object that contains cookies sent by the request.
@@ -66,10 +71,52 @@ export interface Request extends http.IncomingMessage {
 
   /**
    * A function that parses and returns the request body as a FormData object.
+   * Files are standard `File` instances.
    * @returns {Promise<FormData>} A promise that resolves to a FormData object representing the parsed form data.
    */
   formData: () => Promise<FormData>;
 
+  /**
+   * Parses the request body as JSON. Returns `req.body` when a JSON parser already ran.
+   * @returns {Promise<T>} A promise that resolves to the parsed body.
+   * @throws {BadRequest} When the body is not valid JSON.
+   */
+  json: <T = any>() => Promise<T>;
+
+  /**
+   * Reads the request body as UTF-8 text.
+   * @returns {Promise<string>} A promise that resolves to the body text.
+   */
+  text: () => Promise<string>;
+
+  /**
+   * Reads the raw request body.
+   * @returns {Promise<ArrayBuffer>} A promise that resolves to the body bytes.
+   */
+  arrayBuffer: () => Promise<ArrayBuffer>;
+
+  /**
+   * Unique id of the request, bound to `req.log`.
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Child logger bound to this request's id, method, URL and, once a route
+   * matches, its route pattern.
+   * @type {Logger}
+   * @example
+   * req.log.info({ userId }, 'user loaded');
+   */
+  log: Logger;
+
+  /**
+   * The route pattern that matched the request, e.g. '/api/users/:id'.
+   * Undefined until a route matches.
+   * @type {string}
+   */
+  routePattern?: string;
+
   /**
    * Indicates whether the request is "fresh". It is the opposite of req.stale.
    * It is true if the cache-control request header doesn't have a no-cache directive
@@ -138,7 +185,7 @@ export interface Request extends http.IncomingMessage {
    * This object defaults to {}.
    * @type {object}
    */
-  params: any;
+  params: TParams;
 
   /**
    * Contains the path part of the request URL.
@@ -161,7 +208,7 @@ export interface Request extends http.IncomingMessage {
    * When query parser is set to disabled, it is an empty object {}.
    * @type {object}
    */
-  query: any;
+  query: TQuery;
 
   /**
    * Contains the currently-matched route, a string. For example:
@@ -0,0 +1,146 @@
+import type { IncomingMessage } from 'node:http';
+import { BadRequest, PayloadTooLarge } from '../errors.js';
+
+const RAW_BODY = Symbol('fastay.rawBody');
+const BODY_LIMIT = Symbol('fastay.bodyLimit');
+
+const UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/** Byte count of a limit such as `'10mb'` (numbers are bytes). */
+export function parseBodyLimit(limit: string | number): number {
+  if (typeof limit === 'number') return limit;
+
+  const match = limit.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i);
+  if (!match) {
+    const err = new Error(`Invalid body limit: ${limit}`);
+    err.name = 'FastayConfigError';
+    throw err;
+  }
+  return Math.floor(Number(match[1]) * UNITS[(match[2] ?? 'b').toLowerCase()]);
+}
+
+const tooLarge = (limit: number) =>
+  new PayloadTooLarge(`Request body exceeds ${limit} bytes`);
+
+/**
+ * Route handler setting the limit the body readers apply (`bodyLimit`).
+ * A body a global parser already read is checked against it too.
+ */
+export function routeBodyLimit(limit: string | number) {
+  const bytes = parseBodyLimit(limit);
+  return function (req: any, _res: any, next: any) {
+    req[BODY_LIMIT] = bytes;
+
+    const raw: Buffer | undefined = req[RAW_BODY];
+    if (raw && raw.length > bytes) return next(tooLarge(bytes));
+    next();
+  };
+}
+
+/**
+ * `verify` hook for Express body parsers keeping the raw bytes, so
+ * `req.text()` and `req.arrayBuffer()` still work once a parser has read
+ * the body.
+ */
+export function keepRawBody(req: IncomingMessage, _res: unknown, buf: Buffer) {
+  (req as any)[RAW_BODY] = buf;
+}
+
+/**
+ * Error for reading a body that another reader already consumed (e.g. a
+ * stream parser). It is a programming error in the route, so it is not an
+ * `HttpError` and answers 500.
+ */
+export function bodyUsed() {
+  const err = new Error('The request body has already been read');
+  err.name = 'FastayBodyError';
+  return err;
+}
+
+async function readRawBody(req: any, limit: number): Promise<Buffer> {
+  if (req[RAW_BODY]) return req[RAW_BODY];
+  if (Buffer.isBuffer(req.body)) return req.body;
+  if (typeof req.body === 'string') return Buffer.from(req.body);
+  if (req._body || req.readableDidRead) throw bodyUsed();
+
+  if (Number(req.headers['content-length']) > limit) throw tooLarge(limit);
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const cleanup = () => {
+      req.off('data', onData);
+      req.off('end', onEnd);
+      req.off('error', onError);
+    };
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // The rest of the body is discarded once the 413 is sent
+        cleanup();
+        reject(tooLarge(limit));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(Buffer.concat(chunks));
+    };
+    const onError = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+
+    req.on('data', onData);
+    req.on('end', onEnd);
+    req.on('error', onError);
+  });
+}
+
+/**
+ * Fetch-style body readers: `req.json()`, `req.text()` and
+ * `req.arrayBuffer()`. They can be combined and called more than once;
+ * `req.json()` returns `req.body` when a JSON parser already ran.
+ *
+ * Bodies over the route's `bodyLimit` (`limit` outside routes) are
+ * rejected with a 413.
+ */
+export function bodyReadersMiddleware({ limit }: { limit: string | number }) {
+  const defaultLimit = parseBodyLimit(limit);
+
+  return function (req: any, res: any, next: any) {
+    let raw: Promise<Buffer> | undefined;
+    const read = () =>
+      (raw ??= readRawBody(req, req[BODY_LIMIT] ?? defaultLimit));
+
+    req.arrayBuffer = async () => {
+      const buffer = await read();
+      return buffer.buffer.slice(
+        buffer.byteOffset,
+        buffer.byteOffset + buffer.byteLength
+      );
+    };
+
+    req.text = async () => (await read()).toString('utf8');
+
+    req.json = async () => {
+      if (req._body && req.is('json')) return req.body;
+
+      const text = await req.text();
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new BadRequest('Invalid JSON body');
+      }
+    };
+
+    next();
+  };
+}
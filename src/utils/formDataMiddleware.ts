@@ -1,155 +1,575 @@
 import Busboy from 'busboy';
+import { randomUUID } from 'node:crypto';
+import { createWriteStream, openAsBlob } from 'node:fs';
+import { mkdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { finished, pipeline } from 'node:stream/promises';
+import type { ReadableStream } from 'node:stream/web';
+import { PayloadTooLarge, UnsupportedMediaType } from '../errors.js';
+import { bodyUsed } from './bodyReaders.js';
 
-type FieldMap = Record<string, string | string[]>;
-type FileInfo = {
+/**
+ * Limits applied while parsing a multipart body; exceeding one is a 413.
+ * `Infinity` lifts a limit.
+ */
+export interface UploadLimits {
+  /** Maximum size of each file, in bytes. Default: 10 MiB */
+  fileSize?: number;
+  /** Maximum number of files. Default: 10 */
+  files?: number;
+  /** Maximum number of non-file fields. */
+  fields?: number;
+  /** Maximum size of each field value, in bytes. Default: 1 MiB */
+  fieldSize?: number;
+  /** Maximum size of the whole request body, in bytes. Default: 50 MiB */
+  totalSize?: number;
+}
+
+const DEFAULT_LIMITS: UploadLimits = {
+  fileSize: 10 * 1024 * 1024,
+  files: 10,
+  totalSize: 50 * 1024 * 1024,
+};
+
+/** An uploaded file as handed to a storage sink. */
+export interface UploadInfo {
+  /** Form field name. */
+  field: string;
   filename: string;
   encoding: string;
+  /** Type sent by the client, or the detected one with `allowedTypes`. */
   mimeType: string;
-  size: number;
-  buffer: Buffer;
-};
-type FileMap = Record<string, File[]>;
+}
+
+/**
+ * Custom storage: consumes the file stream (to S3, a database...) and
+ * returns what to keep as `file.stored`, e.g. an object key.
+ */
+export type UploadSink = (
+  stream: Readable,
+  info: UploadInfo
+) => Promise<unknown>;
 
-// Classe File compatível com a do browser
-export class File {
+/**
+ * Options of `req.formData()`, set app-wide with `createApp({ uploads })`
+ * and per route with the `uploads` route config.
+ *
+ * @example
+ * ```ts
+ * export const POST = defineHandler({
+ *   uploads: {
+ *     limits: { fileSize: 5 * 1024 * 1024, files: 1 },
+ *     storage: 'disk',
+ *     allowedTypes: ['image/png', 'image/jpeg'],
+ *   },
+ *   handler: async (req) => {
+ *     const avatar = (await req.formData()).get('avatar') as UploadedFile;
+ *     return { body: { path: avatar.path } };
+ *   },
+ * });
+ * ```
+ */
+export interface UploadOptions {
+  limits?: UploadLimits;
+
+  /**
+   * Where file contents go:
+   * - "memory": kept in memory.
+   * - "disk": written to `dir` (`file.path`) and removed once the response ends.
+   * - a function: a custom sink receiving each file stream.
+   * Default: "memory"
+   */
+  storage?: 'memory' | 'disk' | UploadSink;
+
+  /**
+   * Directory of "disk" storage.
+   * Default: `<os tmpdir>/fastay-uploads`
+   */
+  dir?: string;
+
+  /**
+   * Makes `req.formData()` resolve to a `FormDataStream` instead, yielding
+   * fields and files as they arrive, files as `ReadableStream`s. Nothing is
+   * buffered or stored; `storage` is ignored.
+   */
+  stream?: boolean;
+
+  /**
+   * Accepted file types (wildcards like "image/*" allowed). Types are
+   * detected from the file's leading bytes, so a renamed executable is
+   * rejected with a 415 whatever `Content-Type` the client sent.
+   */
+  allowedTypes?: string[];
+}
+
+/** A file yielded by a `FormDataStream`. */
+export interface StreamedFile {
+  field: string;
   name: string;
   type: string;
-  size: number;
-  buffer: Buffer;
-
-  constructor(file: FileInfo) {
-    this.name = file.filename;
-    this.type = file.mimeType;
-    this.size = file.size;
-    this.buffer = file.buffer;
+  /** The file contents; read it before moving to the next entry. */
+  stream(): ReadableStream<Uint8Array>;
+}
+
+/**
+ * Multipart entries in arrival order, from `req.formData()` in `stream`
+ * mode. Files left unread are skipped when iteration moves on.
+ *
+ * @example
+ * ```ts
+ * const form = (await req.formData()) as unknown as FormDataStream;
+ * for await (const [name, value] of form) {
+ *   if (typeof value !== 'string') await saveToBucket(value.name, value.stream());
+ * }
+ * ```
+ */
+export type FormDataStream = AsyncIterable<[string, string | StreamedFile]>;
+
+/**
+ * A `File` from `req.formData()`: a standard WHATWG `File`, plus where its
+ * contents went with "disk" storage or a custom sink.
+ */
+export type UploadedFile = File & {
+  /** Location of the file with "disk" storage. */
+  path?: string;
+  /** What a custom storage sink returned for this file. */
+  stored?: unknown;
+};
+
+const UPLOAD_OPTIONS = Symbol('fastay.uploadOptions');
+
+export function formDataMiddleware(options: UploadOptions = {}) {
+  return function (req: any, res: any, next: any) {
+    if (typeof req.formData === 'function') return next();
+
+    installFormData(req, res, options);
+    next();
+  };
+}
+
+/** Applies a route's `uploads` config on top of the app-wide options. */
+export function routeUploads(options: UploadOptions) {
+  return function (req: any, res: any, next: any) {
+    const base: UploadOptions = req[UPLOAD_OPTIONS] ?? {};
+    installFormData(req, res, {
+      ...base,
+      ...options,
+      limits: { ...base.limits, ...options.limits },
+    });
+    next();
+  };
+}
+
+function installFormData(req: any, res: any, options: UploadOptions) {
+  let parsed: Promise<unknown> | undefined;
+
+  req[UPLOAD_OPTIONS] = options;
+  // The body can only be read once; later calls get the same result
+  req.formData = () => (parsed ??= readFormData(req, res, options));
+}
+
+const bodyTooLarge = (max: number) =>
+  new PayloadTooLarge(`Request body exceeds ${max} bytes`);
+
+async function readFormData(req: any, res: any, options: UploadOptions) {
+  if (req._body || req.readableDidRead) throw bodyUsed();
+
+  const max = { ...DEFAULT_LIMITS, ...options.limits }.totalSize!;
+  if (Number(req.headers['content-length']) > max) {
+    // Rejected before reading anything; the body is discarded
+    req.resume();
+    throw bodyTooLarge(max);
   }
 
-  arrayBuffer() {
-    return this.buffer.buffer.slice(
-      this.buffer.byteOffset,
-      this.buffer.byteOffset + this.buffer.byteLength
-    );
+  return options.stream
+    ? streamFormData(req, options)
+    : parseFormData(req, res, options);
+}
+
+/** Starts Busboy on `req` with the configured limits enforced. */
+function startParser(
+  req: any,
+  options: UploadOptions,
+  fail: (err: Error) => void
+) {
+  const limits = { ...DEFAULT_LIMITS, ...options.limits };
+  const bb = Busboy({
+    headers: req.headers,
+    limits: {
+      fileSize: limits.fileSize,
+      files: limits.files,
+      fields: limits.fields,
+      fieldSize: limits.fieldSize,
+    },
+  });
+
+  bb.on('filesLimit', () =>
+    fail(new PayloadTooLarge(`Too many files (limit: ${limits.files})`))
+  );
+  bb.on('fieldsLimit', () =>
+    fail(new PayloadTooLarge(`Too many fields (limit: ${limits.fields})`))
+  );
+
+  if (Number.isFinite(limits.totalSize)) {
+    const max = limits.totalSize!;
+    let received = 0;
+    req.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > max) fail(bodyTooLarge(max));
+    });
   }
+
+  return {
+    bb,
+
+    /** Stops parsing; the rest of the body is discarded. */
+    stop() {
+      req.unpipe(bb);
+      req.resume();
+    },
+
+    /**
+     * The file stream, failing on `fileSize` and checked against
+     * `allowedTypes`; `info.mimeType` is updated to the detected type.
+     */
+    inspect(file: Readable, info: UploadInfo): Inspected {
+      file.on('limit', () =>
+        fail(
+          new PayloadTooLarge(
+            `File "${info.filename}" exceeds ${limits.fileSize} bytes`
+          )
+        )
+      );
+
+      const inspected = file.pipe(typeGuard(info, options.allowedTypes));
+      file.on('error', (err) => inspected.destroy(err));
+      inspected.on('error', fail);
+      return inspected;
+    },
+
+    fieldTooLarge(name: string) {
+      fail(
+        new PayloadTooLarge(
+          `Field "${name}" exceeds ${limits.fieldSize ?? 1024 * 1024} bytes`
+        )
+      );
+    },
+  };
 }
 
-export function formDataMiddleware() {
-  return function (req: any, res: any, next: any) {
-    if (typeof req.formData === 'function') return next();
+function parseFormData(
+  req: any,
+  res: any,
+  options: UploadOptions
+): Promise<FormData> {
+  return new Promise((resolve, reject) => {
+    const storage = options.storage ?? 'memory';
+    const dir = options.dir ?? path.join(tmpdir(), 'fastay-uploads');
 
-    req.formData = () =>
-      new Promise((resolve, reject) => {
-        const bb = Busboy({ headers: req.headers });
+    // In arrival order; files settle once stored
+    const entries: Promise<[string, string | File] | undefined>[] = [];
+    const tempFiles: string[] = [];
+    const active = new Set<Readable>();
+    let failed = false;
 
-        const fields: FieldMap = {};
-        const files: FileMap = {};
+    const removeTempFiles = () =>
+      Promise.all(tempFiles.map((file) => rm(file, { force: true }))).catch(
+        () => {}
+      );
+    if (storage === 'disk') res.once('close', removeTempFiles);
 
-        bb.on('field', (name, value) => {
-          if (name.endsWith('[]')) {
-            const key = name.slice(0, -2);
-            if (!fields[key]) fields[key] = [];
-            (fields[key] as string[]).push(value);
-          } else {
-            fields[name] = value;
-          }
-        });
+    const fail = (err: Error) => {
+      if (failed) return;
+      failed = true;
+      parser.stop();
+      for (const stream of active) stream.destroy(err);
+      void removeTempFiles();
+      reject(err);
+    };
 
-        bb.on('file', (name, file, info) => {
-          const chunks: Buffer[] = [];
+    const parser = startParser(req, options, fail);
+    const { bb } = parser;
 
-          file.on('data', (chunk) => chunks.push(chunk));
+    bb.on('field', (name, value, info) => {
+      if (info.valueTruncated) return parser.fieldTooLarge(name);
+      entries.push(Promise.resolve([name, value]));
+    });
 
-          file.on('end', () => {
-            const buffer = Buffer.concat(chunks);
+    bb.on('file', (name, file, info) => {
+      const upload: UploadInfo = { field: name, ...info };
+      const stream = parser.inspect(file, upload);
+      active.add(stream);
 
-            const fileObj = new File({
-              filename: info.filename,
-              encoding: info.encoding,
-              mimeType: info.mimeType,
-              size: buffer.length,
-              buffer,
-            });
+      const store = async (): Promise<UploadedFile> => {
+        const { filename } = upload;
 
-            if (!files[name]) files[name] = [];
-            files[name].push(fileObj);
+        if (storage === 'memory') {
+          const chunks: Buffer[] = [];
+          for await (const chunk of stream) chunks.push(chunk);
+          return new File(chunks as BlobPart[], filename, {
+            type: upload.mimeType,
           });
-        });
+        }
+
+        if (storage === 'disk') {
+          await mkdir(dir, { recursive: true });
+          const target = path.join(dir, randomUUID());
+          tempFiles.push(target);
+          await pipeline(stream, createWriteStream(target));
 
-        bb.on('finish', () => {
-          resolve(createFormDataLike(fields, files));
-        });
+          // Backed by the file on disk, not read into memory
+          const blob = await openAsBlob(target);
+          return Object.assign(
+            new File([blob], filename, { type: upload.mimeType }),
+            { path: target }
+          );
+        }
 
-        bb.on('error', reject);
+        const stored = await storage(stream, upload);
+        // Drain whatever the sink left unread so parsing can go on
+        stream.resume();
+        await finished(stream);
 
-        req.pipe(bb);
+        // The contents stay with the sink; `size` still reports what it received
+        const placeholder = new File([], filename, { type: upload.mimeType });
+        Object.defineProperty(placeholder, 'size', { value: stream.bytes });
+        return Object.assign(placeholder, { stored });
+      };
+
+      entries.push(
+        store().then(
+          (uploaded): [string, File] => {
+            active.delete(stream);
+            return [name, uploaded];
+          },
+          (err) => {
+            fail(err);
+            return undefined;
+          }
+        )
+      );
+    });
+
+    bb.on('close', () => {
+      Promise.all(entries).then((settled) => {
+        if (failed) return;
+
+        const form = new FormData();
+        for (const entry of settled) form.append(...entry!);
+        resolve(form);
       });
+    });
 
-    next();
-  };
+    bb.on('error', (err: Error) => fail(err));
+
+    req.pipe(bb);
+  });
 }
 
-function createFormDataLike(fields: FieldMap, files: FileMap) {
-  return {
-    get(key: string) {
-      if (files[key]) return files[key][0];
-      return fields[key] ?? null;
-    },
+function streamFormData(req: any, options: UploadOptions): FormDataStream {
+  const queue: [string, string | StreamedFile][] = [];
+  const active = new Set<Readable>();
+  let done = false;
+  let error: Error | undefined;
+  let wake: (() => void) | undefined;
 
-    getAll(key: string) {
-      if (files[key]) return files[key];
-      const val = fields[key];
-      return Array.isArray(val) ? val : val ? [val] : [];
-    },
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
 
-    has(key: string) {
-      return !!fields[key] || !!files[key];
-    },
+  const fail = (err: Error) => {
+    if (error) return;
+    error = err;
+    parser.stop();
+    for (const stream of active) stream.destroy(err);
+    notify();
+  };
 
-    append(key: string, value: any) {
-      if (value instanceof File) {
-        if (!files[key]) files[key] = [];
-        files[key].push(value);
-        return;
-      }
+  const parser = startParser(req, options, fail);
+  const { bb } = parser;
+  const unread = new WeakMap<StreamedFile, Readable>();
+
+  bb.on('field', (name, value, info) => {
+    if (info.valueTruncated) return parser.fieldTooLarge(name);
+    queue.push([name, value]);
+    notify();
+  });
+
+  bb.on('file', (name, file, info) => {
+    const upload: UploadInfo = { field: name, ...info };
+    const stream = parser.inspect(file, upload);
+    active.add(stream);
+    stream.once('end', () => active.delete(stream));
+
+    const entry: StreamedFile = {
+      field: name,
+      name: info.filename,
+      get type() {
+        return upload.mimeType;
+      },
+      stream() {
+        unread.delete(entry);
+        return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+      },
+    };
+    unread.set(entry, stream);
+    queue.push([name, entry]);
+    notify();
+  });
+
+  bb.on('close', () => {
+    done = true;
+    notify();
+  });
+  bb.on('error', (err: Error) => fail(err));
+
+  req.pipe(bb);
 
-      if (!fields[key]) {
-        fields[key] = value;
-      } else if (Array.isArray(fields[key])) {
-        (fields[key] as string[]).push(value);
-      } else {
-        fields[key] = [fields[key] as string, value];
+  return {
+    async *[Symbol.asyncIterator]() {
+      let previous: StreamedFile | undefined;
+      try {
+        while (true) {
+          // Parsing waits for each file to be consumed; skip unread ones
+          if (previous) unread.get(previous)?.resume();
+          previous = undefined;
+
+          if (error) throw error;
+          const entry = queue.shift();
+          if (entry) {
+            if (typeof entry[1] !== 'string') previous = entry[1];
+            yield entry;
+          } else if (done) {
+            return;
+          } else {
+            await new Promise<void>((resolve) => (wake = resolve));
+          }
+        }
+      } finally {
+        if (!done && !error) parser.stop();
       }
     },
+  };
+}
 
-    set(key: string, value: any) {
-      if (value instanceof File) {
-        files[key] = [value];
-        delete fields[key];
-        return;
-      }
+// Leading bytes of common formats; null matches any byte
+const SIGNATURES: [type: string, bytes: (number | null)[]][] = [
+  ['image/png', [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  ['image/jpeg', [0xff, 0xd8, 0xff]],
+  ['image/gif', [0x47, 0x49, 0x46, 0x38]],
+  [
+    'image/webp',
+    [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+  ],
+  ['image/tiff', [0x49, 0x49, 0x2a, 0x00]],
+  ['image/tiff', [0x4d, 0x4d, 0x00, 0x2a]],
+  [
+    'image/avif',
+    [null, null, null, null, 0x66, 0x74, 0x79, 0x70, 0x61, 0x76, 0x69, 0x66],
+  ],
+  ['video/mp4', [null, null, null, null, 0x66, 0x74, 0x79, 0x70]],
+  ['video/webm', [0x1a, 0x45, 0xdf, 0xa3]],
+  [
+    'audio/wav',
+    [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45],
+  ],
+  ['audio/mpeg', [0x49, 0x44, 0x33]],
+  ['audio/ogg', [0x4f, 0x67, 0x67, 0x53]],
+  ['application/pdf', [0x25, 0x50, 0x44, 0x46, 0x2d]],
+  ['application/zip', [0x50, 0x4b, 0x03, 0x04]],
+  ['application/gzip', [0x1f, 0x8b]],
+  ['application/x-msdownload', [0x4d, 0x5a]],
+  ['application/x-elf', [0x7f, 0x45, 0x4c, 0x46]],
+];
+const SNIFF_BYTES = 12;
+const SNIFFABLE = new Set(SIGNATURES.map(([type]) => type));
 
-      fields[key] = value;
-      delete files[key];
-    },
+function sniff(head: Buffer): string | undefined {
+  return SIGNATURES.find(
+    ([, bytes]) =>
+      head.length >= bytes.length &&
+      bytes.every((byte, i) => byte === null || head[i] === byte)
+  )?.[0];
+}
+
+// Office documents, EPUB, JAR... are zip archives
+const isZipBased = (type: string) =>
+  type.endsWith('+zip') ||
+  type.startsWith('application/vnd.openxmlformats') ||
+  type.startsWith('application/vnd.oasis.opendocument') ||
+  type === 'application/java-archive';
+
+/**
+ * Type of a file from its leading bytes. Formats without a signature
+ * (text, JSON, CSV...) keep their declared type, unless it claims to be a
+ * format that has one.
+ */
+function detectType(head: Buffer, declared: string): string | undefined {
+  const detected = sniff(head);
+  if (detected) {
+    return detected === 'application/zip' && isZipBased(declared)
+      ? declared
+      : detected;
+  }
+  return SNIFFABLE.has(declared) ? undefined : declared;
+}
+
+function isAllowed(type: string, allowed: string[]) {
+  return allowed.some((pattern) =>
+    pattern.endsWith('/*')
+      ? type.startsWith(pattern.slice(0, -1))
+      : type === pattern
+  );
+}
+
+type Inspected = Transform & { bytes: number };
+
+/**
+ * Passes the file through, counting its bytes and rejecting it early if
+ * its type is not allowed.
+ */
+function typeGuard(info: UploadInfo, allowed: string[] | undefined) {
+  const head: Buffer[] = [];
+  let length = 0;
+  let checked = !allowed;
+
+  const check = () => {
+    checked = true;
+    const buffer = Buffer.concat(head);
+    const type = detectType(buffer, info.mimeType.toLowerCase());
+    if (!type || !isAllowed(type, allowed!)) {
+      return new UnsupportedMediaType(
+        `File "${info.filename}" is not an allowed type (${allowed!.join(', ')})`
+      );
+    }
+    info.mimeType = type;
+    return buffer;
+  };
 
-    delete(key: string) {
-      delete fields[key];
-      delete files[key];
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      stream.bytes += chunk.length;
+      if (checked) return callback(null, chunk);
+
+      head.push(chunk);
+      length += chunk.length;
+      if (length < SNIFF_BYTES) return callback();
+
+      const result = check();
+      result instanceof Error ? callback(result) : callback(null, result);
     },
 
-    *entries() {
-      for (const [k, v] of Object.entries(fields)) {
-        if (Array.isArray(v)) {
-          for (const item of v) yield [k, item];
-        } else {
-          yield [k, v];
-        }
-      }
+    flush(callback) {
+      if (checked) return callback();
 
-      for (const [k, arr] of Object.entries(files)) {
-        for (const file of arr) yield [k, file];
-      }
+      const result = check();
+      result instanceof Error ? callback(result) : callback(null, result);
     },
+  }) as Inspected;
+  stream.bytes = 0;
 
-    raw: { fields, files },
-  };
+  return stream;
 }
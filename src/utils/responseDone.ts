@@ -0,0 +1,49 @@
+import type { ServerResponse } from 'node:http';
+
+const UPGRADE_LISTENERS = Symbol('fastay.upgradeListeners');
+
+/**
+ * How a response ended:
+ * - `finished`: fully sent;
+ * - `upgraded`: handed over to a WebSocket (status 101);
+ * - `aborted`: the connection closed before the response was sent.
+ */
+export type ResponseOutcome = 'finished' | 'upgraded' | 'aborted';
+
+/**
+ * Calls `fn` once the response ends, however it ends. Used by the access
+ * log, metrics and tracing, which must also see upgraded requests: their
+ * response never emits `finish` or `close`.
+ */
+export function onResponseDone(
+  res: ServerResponse,
+  fn: (outcome: ResponseOutcome) => void
+) {
+  let done = false;
+  const settle = (outcome: ResponseOutcome) => {
+    if (done) return;
+    done = true;
+    res.off('finish', onFinish);
+    res.off('close', onClose);
+    fn(outcome);
+  };
+
+  const onFinish = () => settle('finished');
+  const onClose = () => settle(res.writableFinished ? 'finished' : 'aborted');
+
+  res.once('finish', onFinish);
+  res.once('close', onClose);
+  ((res as any)[UPGRADE_LISTENERS] ??= []).push(() => settle('upgraded'));
+}
+
+/**
+ * Records the 101 of a request upgraded to a WebSocket and ends it for
+ * the `onResponseDone` listeners.
+ */
+export function markUpgraded(res: ServerResponse) {
+  res.statusCode = 101;
+
+  const listeners: (() => void)[] = (res as any)[UPGRADE_LISTENERS] ?? [];
+  delete (res as any)[UPGRADE_LISTENERS];
+  for (const listener of listeners) listener();
+}
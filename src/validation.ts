@@ -0,0 +1,270 @@
+import type { IncomingHttpHeaders } from 'http';
+import type { StandardSchemaV1 } from './types/standard-schema.js';
+import type { Request } from './types/request.js';
+import { logger } from './logger.js';
+
+/**
+ * Schemas validated before a handler runs. Any Standard Schema
+ * implementation works (zod, valibot, arktype, ...).
+ *
+ * @example
+ * ```ts
+ * export const POST = defineHandler({
+ *   schema: {
+ *     params: z.object({ id: z.string().uuid() }),
+ *     body: z.object({ name: z.string().min(1) }),
+ *   },
+ *   handler: async (req) => ({ body: { id: req.params.id, name: req.body.name } }),
+ * });
+ * ```
+ */
+export interface RequestSchema {
+  params?: StandardSchemaV1;
+  query?: StandardSchemaV1;
+  body?: StandardSchemaV1;
+  headers?: StandardSchemaV1;
+}
+
+type Location = keyof RequestSchema;
+
+type Output<S, Fallback> = S extends StandardSchemaV1
+  ? StandardSchemaV1.InferOutput<S>
+  : Fallback;
+
+/** Request as seen by a handler once its schemas have been applied. */
+export type ValidatedRequest<S extends RequestSchema = {}> = Omit<
+  Request<
+    Output<S['params'], any>,
+    Output<S['query'], any>,
+    Output<S['body'], any>
+  >,
+  'headers'
+> & {
+  headers: IncomingHttpHeaders & Output<S['headers'], {}>;
+};
+
+/** A single validation failure, located in the request. */
+export interface ValidationIssue {
+  location: Location;
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * Thrown when a request does not match its route schemas.
+ * Rendered as a 422 with the list of issues.
+ */
+export class ValidationError extends Error {
+  readonly status = 422;
+  readonly expose = true;
+
+  constructor(
+    public readonly issues: ValidationIssue[],
+    message = 'Validation Failed'
+  ) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+const LOCATIONS: Location[] = ['params', 'query', 'headers', 'body'];
+
+function issuePath(issue: StandardSchemaV1.Issue): (string | number)[] {
+  return (issue.path ?? []).map((segment) => {
+    const key = typeof segment === 'object' ? segment.key : segment;
+    return typeof key === 'number' ? key : String(key);
+  });
+}
+
+/**
+ * Validates `req` against `schema` and replaces `params`, `query` and
+ * `body` with the parsed values. Parsed headers are merged into
+ * `req.headers` so headers the schema does not declare are kept.
+ *
+ * @throws {ValidationError} listing every issue found, in all locations.
+ */
+export async function validateRequest(
+  req: Request,
+  schema: RequestSchema
+): Promise<void> {
+  const issues: ValidationIssue[] = [];
+  const parsed: Partial<Record<Location, unknown>> = {};
+
+  for (const location of LOCATIONS) {
+    const validator = schema[location];
+    if (!validator) continue;
+
+    const result = await validator['~standard'].validate(req[location]);
+
+    if (result.issues) {
+      for (const issue of result.issues) {
+        issues.push({
+          location,
+          path: issuePath(issue),
+          message: issue.message,
+        });
+      }
+    } else {
+      parsed[location] = result.value;
+    }
+  }
+
+  if (issues.length) throw new ValidationError(issues);
+
+  for (const [location, value] of Object.entries(parsed)) {
+    if (location === 'headers') {
+      Object.assign(req.headers, value);
+    } else {
+      // Express 5 exposes `req.query` as a getter, so define instead of assign.
+      Object.defineProperty(req, location, {
+        value,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+  }
+}
+
+/**
+ * Response declaration for one status code: a schema, a precompiled
+ * serializer (e.g. from fast-json-stringify), or both.
+ */
+export interface ResponseDefinition {
+  schema?: StandardSchemaV1;
+  serialize?: (body: any) => string;
+}
+
+/**
+ * Response declarations by status code.
+ *
+ * @example
+ * ```ts
+ * export const GET = defineHandler({
+ *   response: {
+ *     200: z.object({ id: z.string(), email: z.string() }),
+ *     404: { serialize: fastJson({ type: 'object', properties: { error: { type: 'string' } } }) },
+ *   },
+ *   handler: async (req) => ({ body: await db.users.find(req.params.id) }),
+ * });
+ * ```
+ */
+export type ResponseSchema = Record<
+  number,
+  StandardSchemaV1 | ResponseDefinition
+>;
+
+/**
+ * Thrown when a handler returns a body that does not match its declared
+ * response schema. Always a server error: the client did nothing wrong.
+ */
+export class ResponseValidationError extends Error {
+  readonly status = 500;
+
+  constructor(
+    public readonly statusCode: number,
+    public readonly issues: Omit<ValidationIssue, 'location'>[]
+  ) {
+    super(
+      `Response body does not match the schema for status ${statusCode}: ` +
+        issues
+          .map(
+            ({ path, message }) => `${path.join('.') || '(root)'} ${message}`
+          )
+          .join('; ')
+    );
+    this.name = 'ResponseValidationError';
+  }
+}
+
+// Optional, nullable and default wrappers (zod `unwrap()`/`innerType`,
+// valibot `wrapped`) around the schema describing the value. Arrays are
+// kept: zod 4 arrays `unwrap()` to their element
+function unwrapSchema(schema: any): any {
+  for (let depth = 0; schema && depth < 8; depth++) {
+    if (schema.element ?? schema.item) break;
+    const inner = schema.wrapped ?? schema._def?.innerType ?? schema.unwrap?.();
+    if (!inner || inner === schema) break;
+    schema = inner;
+  }
+  return schema;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Copies of `value` keeping only the object keys `schema` declares (zod
+ * `shape`, valibot `entries`), at every depth. Values of schemas that
+ * cannot be introspected are kept as they are.
+ */
+function pickDeclared(value: unknown, schema: unknown): unknown {
+  const resolved = unwrapSchema(schema);
+  if (!resolved) return value;
+
+  if (Array.isArray(value)) {
+    const item = resolved.element ?? resolved.item;
+    return item ? value.map((entry) => pickDeclared(entry, item)) : value;
+  }
+
+  const entries = resolved.shape ?? resolved.entries;
+  if (!isPlainObject(value) || !entries || typeof entries !== 'object') {
+    return value;
+  }
+
+  const picked: Record<string, unknown> = {};
+  for (const key of Object.keys(entries)) {
+    if (key in value) picked[key] = pickDeclared(value[key], entries[key]);
+  }
+  return picked;
+}
+
+/**
+ * Applies the response declaration for `status` to a JSON body.
+ *
+ * Fields the schema does not declare are removed, even when the schema
+ * itself lets unknown keys through. A body that does not match throws
+ * `ResponseValidationError` in dev and test; in production the mismatch
+ * is logged and the stripped body is sent.
+ *
+ * Returns the serialized JSON when a serializer is declared.
+ */
+export async function prepareResponseBody(
+  status: number,
+  body: unknown,
+  responses: ResponseSchema
+): Promise<{ body: unknown; json?: string }> {
+  const declared = responses[status];
+  if (!declared) return { body };
+
+  const { schema, serialize } =
+    '~standard' in declared
+      ? { schema: declared as StandardSchemaV1, serialize: undefined }
+      : (declared as ResponseDefinition);
+
+  let output = body;
+
+  if (schema) {
+    const result = await schema['~standard'].validate(body);
+
+    if (result.issues) {
+      const err = new ResponseValidationError(
+        status,
+        result.issues.map((issue) => ({
+          path: issuePath(issue),
+          message: issue.message,
+        }))
+      );
+      if (process.env.NODE_ENV !== 'production') throw err;
+
+      logger.warn(err.message);
+      output = pickDeclared(body, schema);
+    } else {
+      output = pickDeclared(result.value, schema);
+    }
+  }
+
+  return serialize
+    ? { body: output, json: serialize(output) }
+    : { body: output };
+}
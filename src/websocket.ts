@@ -0,0 +1,384 @@
+import type * as Ws from 'ws';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import type { Socket } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { Request, RequestHandler } from 'express';
+import { logger } from './logger.js';
+import { markUpgraded } from './utils/responseDone.js';
+import type { HttpMethod } from './router.js';
+import type { RequestCookies } from './types/request.js';
+
+/**
+ * WebSocket routes, built on the optional `ws` package. A route file
+ * exports a `WS` handler, served at the same path as its HTTP methods:
+ *
+ * ```ts
+ * // src/api/rooms/[id]/route.ts
+ * export const WS: WebSocketHandler<{ user: string }> = {
+ *   json: true,
+ *   open(socket) {
+ *     socket.context.user = socket.cookies.get('user')?.value ?? 'guest';
+ *     socket.subscribe(`room:${socket.params.id}`);
+ *   },
+ *   message(socket, data) {
+ *     socket.publish(`room:${socket.params.id}`, { from: socket.context.user, data });
+ *   },
+ * };
+ * ```
+ *
+ * The upgrade request goes through the global middleware, the folder
+ * `middleware.ts` stack and the module's `config.middleware`, so auth
+ * middleware can reject it with a regular HTTP response.
+ */
+
+/**
+ * Limits and keep-alive of WebSocket connections, set for the whole app
+ * (`CreateAppOptions.websocket`) or per `WS` handler.
+ */
+export interface WebSocketOptions {
+  /**
+   * Largest message accepted, in bytes. Bigger messages close the
+   * connection with 1009.
+   * Default: 1048576 (1 MiB)
+   */
+  maxPayload?: number;
+
+  /**
+   * Interval of ping frames, in ms. A peer that did not answer the
+   * previous ping is terminated, so half-open connections are dropped
+   * from their topics. `false` disables it.
+   * Default: 30000
+   */
+  heartbeat?: number | false;
+}
+
+export interface WebSocketHandler<
+  Context = Record<string, any>,
+> extends WebSocketOptions {
+  /**
+   * Parses text messages as JSON before `message` is called. A message
+   * that is not valid JSON closes the connection with 1007.
+   */
+  json?: boolean;
+
+  open?(socket: FastaySocket<Context>): void | Promise<void>;
+
+  /**
+   * Text messages arrive as strings (parsed values with `json`), binary
+   * ones as Buffers.
+   */
+  message?(socket: FastaySocket<Context>, data: any): void | Promise<void>;
+
+  close?(
+    socket: FastaySocket<Context>,
+    code: number,
+    reason: string
+  ): void | Promise<void>;
+
+  /**
+   * Errors thrown by the other handlers and socket errors. Without it they
+   * are logged. Handler errors then close the connection with 1011.
+   */
+  error?(socket: FastaySocket<Context>, error: Error): void | Promise<void>;
+}
+
+/** One WebSocket connection, as passed to the `WS` handlers. */
+export interface FastaySocket<Context = Record<string, any>> {
+  /** The underlying `ws` socket. */
+  raw: Ws.WebSocket;
+  /** The upgrade request, as seen by the middleware that accepted it. */
+  req: Request;
+  /** Route params, e.g. `{ id: "7" }` for "/api/rooms/:id". */
+  params: Record<string, any>;
+  /** Cookies of the upgrade request. */
+  cookies: RequestCookies;
+  /** State kept for the lifetime of the connection. */
+  context: Context;
+  /** Topics this connection is subscribed to. */
+  topics: ReadonlySet<string>;
+
+  send(data: string | Buffer | ArrayBuffer | Uint8Array): void;
+  /** Sends `value` as a JSON text message. */
+  json(value: unknown): void;
+  close(code?: number, reason?: string): void;
+
+  subscribe(topic: string): void;
+  unsubscribe(topic: string): void;
+  /**
+   * Sends `data` (non-strings as JSON) to the other subscribers of
+   * `topic`. Returns the number of connections it was sent to.
+   */
+  publish(topic: string, data: unknown): number;
+}
+
+/** Open connections and their topics, for one application. */
+export interface WebSocketHub {
+  /**
+   * Dispatches an HTTP upgrade through `app`; the `WS` handler of the
+   * matched route completes it.
+   */
+  upgrade(
+    app: (req: IncomingMessage, res: ServerResponse) => void,
+    req: IncomingMessage,
+    socket: Duplex,
+    head: Buffer
+  ): void;
+  /** Sends `data` to every subscriber of `topic`. */
+  publish(topic: string, data: unknown): number;
+  /** Closes every connection with 1001 (going away). */
+  close(): void;
+}
+
+interface PendingUpgrade {
+  hub: Hub;
+  socket: Duplex;
+  head: Buffer;
+  accepted: boolean;
+}
+
+interface Hub extends WebSocketHub {
+  accept(req: Request, handler: WebSocketHandler<any>): Promise<void>;
+}
+
+const UPGRADE = Symbol('fastay.upgrade');
+const DEFAULT_MAX_PAYLOAD = 1024 * 1024;
+const DEFAULT_HEARTBEAT = 30_000;
+
+/** Whether `req` is a WebSocket upgrade dispatched by the hub. */
+export function isWebSocketUpgrade(req: IncomingMessage): boolean {
+  return UPGRADE in req;
+}
+
+let wsModule: Promise<typeof Ws> | undefined;
+
+async function loadWs(): Promise<typeof Ws> {
+  try {
+    return await import('ws');
+  } catch {
+    const err = new Error('WebSocket routes require ws: npm install ws');
+    err.name = 'FastayWebSocketError';
+    throw err;
+  }
+}
+
+// Strings and binary data are sent as is, anything else as JSON
+const encode = (data: unknown) =>
+  typeof data === 'string' ||
+  Buffer.isBuffer(data) ||
+  data instanceof ArrayBuffer ||
+  ArrayBuffer.isView(data)
+    ? (data as string | Buffer)
+    : JSON.stringify(data);
+
+export function createWebSocketHub(
+  defaults: WebSocketOptions = {}
+): WebSocketHub {
+  // One server per `maxPayload` in use
+  const servers = new Map<number, Ws.WebSocketServer>();
+  const sockets = new Set<FastaySocket<any>>();
+  const topics = new Map<string, Set<FastaySocket<any>>>();
+
+  const broadcast = (
+    topic: string,
+    data: unknown,
+    except?: FastaySocket<any>
+  ) => {
+    const subscribers = topics.get(topic);
+    if (!subscribers) return 0;
+
+    const payload = encode(data);
+    let sent = 0;
+    for (const socket of subscribers) {
+      if (socket === except || socket.raw.readyState !== 1) continue;
+      socket.raw.send(payload);
+      sent++;
+    }
+    return sent;
+  };
+
+  const leave = (socket: FastaySocket<any>, topic: string) => {
+    const subscribers = topics.get(topic);
+    subscribers?.delete(socket);
+    if (subscribers?.size === 0) topics.delete(topic);
+  };
+
+  const connect = (
+    ws: Ws.WebSocket,
+    req: Request,
+    handler: WebSocketHandler<any>
+  ) => {
+    const joined = new Set<string>();
+    const socket: FastaySocket<any> = {
+      raw: ws,
+      req,
+      params: req.params,
+      cookies: req.cookies,
+      context: {},
+      topics: joined,
+      send: (data) => ws.send(data),
+      json: (value) => ws.send(JSON.stringify(value)),
+      close: (code, reason) => ws.close(code, reason),
+      subscribe(topic) {
+        joined.add(topic);
+        if (!topics.has(topic)) topics.set(topic, new Set());
+        topics.get(topic)!.add(socket);
+      },
+      unsubscribe(topic) {
+        joined.delete(topic);
+        leave(socket, topic);
+      },
+      publish: (topic, data) => broadcast(topic, data, socket),
+    };
+    sockets.add(socket);
+
+    const label = `WebSocket Error [${req.routePattern ?? req.path}]`;
+    const report = async (err: Error) => {
+      try {
+        if (handler.error) return await handler.error(socket, err);
+      } catch (failure) {
+        err = failure as Error;
+      }
+      logger.error(`${label}: ${err.message}`);
+    };
+
+    // Handlers run one at a time, so `open` completes before the first
+    // message is handled
+    let queue = Promise.resolve();
+    const run = (fn: () => void | Promise<void>) => {
+      queue = queue.then(fn).catch(async (err: Error) => {
+        await report(err);
+        ws.close(1011, 'Internal Error');
+      });
+    };
+
+    ws.on('message', (raw: Buffer, isBinary: boolean) => {
+      let data: unknown = isBinary ? raw : raw.toString('utf8');
+
+      if (handler.json && !isBinary) {
+        try {
+          data = JSON.parse(data as string);
+        } catch {
+          ws.close(1007, 'Invalid JSON');
+          return;
+        }
+      }
+
+      if (handler.message) run(() => handler.message!(socket, data));
+    });
+
+    const heartbeat =
+      handler.heartbeat ?? defaults.heartbeat ?? DEFAULT_HEARTBEAT;
+    let alive = true;
+    const timer =
+      heartbeat === false
+        ? undefined
+        : setInterval(() => {
+            if (!alive) return ws.terminate();
+            alive = false;
+            ws.ping();
+          }, heartbeat);
+    timer?.unref();
+    ws.on('pong', () => (alive = true));
+
+    ws.on('close', (code: number, reason: Buffer) => {
+      clearInterval(timer);
+      sockets.delete(socket);
+      for (const topic of joined) leave(socket, topic);
+      joined.clear();
+      if (handler.close) {
+        run(() => handler.close!(socket, code, reason.toString('utf8')));
+      }
+    });
+
+    // ws closes the connection itself after an error
+    ws.on('error', (err: Error) => void report(err));
+
+    if (handler.open) run(() => handler.open!(socket));
+  };
+
+  const hub: Hub = {
+    upgrade(app, req, socket, head) {
+      socket.on('error', () => socket.destroy());
+
+      const pending: PendingUpgrade = { hub, socket, head, accepted: false };
+      (req as any)[UPGRADE] = pending;
+
+      // Responses of middleware rejecting the upgrade (401, 404...) are
+      // written to the socket as a regular HTTP response
+      const res = new ServerResponse(req);
+      res.assignSocket(socket as Socket);
+      res.shouldKeepAlive = false;
+      res.once('finish', () => {
+        if (!pending.accepted) socket.end();
+      });
+
+      app(req, res);
+    },
+
+    async accept(req, handler) {
+      const { socket, head } = (req as any)[UPGRADE] as PendingUpgrade;
+      const res = req.res!;
+
+      const { WebSocketServer } = await (wsModule ??= loadWs());
+      const maxPayload =
+        handler.maxPayload ?? defaults.maxPayload ?? DEFAULT_MAX_PAYLOAD;
+      let server = servers.get(maxPayload);
+      if (!server) {
+        server = new WebSocketServer({ noServer: true, maxPayload });
+        servers.set(maxPayload, server);
+      }
+
+      // ws writes the 101 response itself, bypassing `res`
+      (req as any)[UPGRADE].accepted = true;
+      res.detachSocket(socket as Socket);
+
+      server.handleUpgrade(req, socket, head, (ws) => {
+        connect(ws, req, handler);
+        markUpgraded(res);
+      });
+    },
+
+    publish: (topic, data) => broadcast(topic, data),
+
+    close() {
+      for (const socket of sockets) socket.close(1001, 'Server shutting down');
+      for (const server of servers.values()) server.close();
+    },
+  };
+
+  return hub;
+}
+
+/**
+ * Last handler of a `WS` route: completes the upgrade once the middleware
+ * accepted it.
+ */
+export function webSocketRoute(handler: WebSocketHandler<any>): RequestHandler {
+  return (req, _res, next) => {
+    const pending = (req as any)[UPGRADE] as PendingUpgrade;
+    pending.hub.accept(req, handler).catch(next);
+  };
+}
+
+/**
+ * Method handlers to mount for a route. With a `WS` handler, GET requests
+ * that are WebSocket upgrades go to it, and the others to `GET`, if any.
+ */
+export function withWebSocket(
+  methods: { method: HttpMethod; handler: RequestHandler }[],
+  websocket?: RequestHandler
+): { method: HttpMethod; handler: RequestHandler }[] {
+  if (!websocket) return methods;
+
+  const get = methods.find(({ method }) => method === 'GET')?.handler;
+  const handler: RequestHandler = (req, res, next) => {
+    if (isWebSocketUpgrade(req)) return websocket(req, res, next);
+    if (get) return get(req, res, next);
+    next();
+  };
+
+  return [
+    ...methods.filter(({ method }) => method !== 'GET'),
+    { method: 'GET', handler },
+  ];
+}
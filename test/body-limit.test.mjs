@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createApp, createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/body-limit', import.meta.url));
+
+describe('body readers', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({ apiDir, logging: { level: 'silent' } });
+  });
+  after(() => client.close());
+
+  it('reads bodies within the route limit', async () => {
+    const res = await client.post('/api/small').send('x'.repeat(1024));
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { length: 1024 });
+  });
+
+  it('answers 413 over the route limit', async () => {
+    const res = await client.post('/api/small').send('x'.repeat(1025));
+    assert.equal(res.status, 413);
+  });
+
+  it('reads a body already parsed as JSON again', async () => {
+    const res = await client.post('/api/echo').send({ id: 1 });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { json: { id: 1 }, text: '{"id":1}' });
+  });
+});
+
+describe('body readers without content-length', () => {
+  let server;
+  let close;
+
+  before(async () => {
+    ({ close } = await createApp({
+      apiDir,
+      mode: 'test',
+      logging: { level: 'silent' },
+      onReady: (_app, created) => {
+        server = created;
+      },
+    }));
+    await new Promise((resolve) => server.listen(0, resolve));
+  });
+  after(() => close());
+
+  it('answers 413 once a chunked body exceeds the limit', async () => {
+    const status = await new Promise((resolve, reject) => {
+      const req = http.request({
+        port: server.address().port,
+        method: 'POST',
+        path: '/api/small',
+        headers: { 'content-type': 'text/plain' },
+      });
+      req.on('response', (res) => {
+        res.resume();
+        resolve(res.statusCode);
+      });
+      req.on('error', reject);
+      req.write('x'.repeat(512));
+      req.write('x'.repeat(1024));
+      req.end();
+    });
+
+    assert.equal(status, 413);
+  });
+});
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/catch-all', import.meta.url));
+
+for (const router of ['express', 'radix']) {
+  describe(`catch-all routes (${router} router)`, () => {
+    let client;
+
+    before(async () => {
+      client = await createTestClient({
+        apiDir,
+        router,
+        logging: { level: 'silent' },
+      });
+    });
+    after(() => client.close());
+
+    it('passes the matched segments as an array', async () => {
+      const res = await client.get('/api/guides/getting-started/intro');
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body, { slug: ['getting-started', 'intro'] });
+    });
+
+    it('does not match the parent path of a required catch-all', async () => {
+      assert.equal((await client.get('/api/guides')).status, 404);
+      assert.equal((await client.get('/api/guides/')).status, 404);
+    });
+
+    it('matches the parent path of an optional catch-all', async () => {
+      const res = await client.get('/api/files');
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body, { path: null });
+
+      const nested = await client.get('/api/files/a/b');
+      assert.deepEqual(nested.body, { path: ['a', 'b'] });
+    });
+  });
+}
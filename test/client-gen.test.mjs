@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import ts from 'typescript';
+import { z } from 'zod';
+import { createTestClient } from '../dist/index.js';
+import { generateClient } from '../dist/client-gen.js';
+import { configureLogger } from '../dist/logger.js';
+import { createRouteLayer, loadRoutes } from '../dist/router.js';
+
+const fixture = (name) =>
+  fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+
+const toJsonSchema = (schema) => z.toJSONSchema(schema);
+
+/** Route definitions of `apiDir`, loaded the way `fastay generate client` does. */
+async function definitions(apiDir) {
+  const layer = createRouteLayer();
+  await loadRoutes(layer, '/api', apiDir);
+  return layer.definitions();
+}
+
+describe('client generation', () => {
+  let client;
+  let dir;
+
+  before(async () => {
+    configureLogger({ level: 'silent' });
+    client = await createTestClient({
+      apiDir: fixture('openapi'),
+      logging: { level: 'silent' },
+    });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fastay-client-'));
+  });
+  after(async () => {
+    await client.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('types params and bodies from the route schemas', async () => {
+    const source = generateClient(
+      await definitions(fixture('openapi')),
+      '/api',
+      { toJsonSchema }
+    );
+
+    assert.match(source, /export type PutUsersByIdBody = \{ name: string \};/);
+    assert.match(
+      source,
+      /getUsersById: \(\s+input: \{ params: \{ "id": string \} \},/
+    );
+    assert.match(
+      source,
+      /putUsersById: \(\s+input: \{ params: \{ "id": string \}; body: PutUsersByIdBody \},/
+    );
+  });
+
+  it('calls the routes it was generated from', async () => {
+    const source = generateClient(
+      await definitions(fixture('openapi')),
+      '/api',
+      { toJsonSchema }
+    );
+    const file = path.join(dir, 'client.mjs');
+    fs.writeFileSync(
+      file,
+      ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.ESNext },
+      }).outputText
+    );
+    const { createClient } = await import(pathToFileURL(file).href);
+
+    // Sends the client's requests through the test client
+    const fetch = async (url, init) => {
+      const res = await client
+        .request(init.method, url)
+        .set(init.headers)
+        .send(init.body ?? '');
+      return new Response(res.text, {
+        status: res.status,
+        headers: { 'content-type': res.headers['content-type'] },
+      });
+    };
+    const api = createClient({ fetch });
+
+    assert.deepEqual(await api.getUsersById({ params: { id: '7' } }), {
+      id: '7',
+    });
+    assert.deepEqual(
+      await api.putUsersById({ params: { id: '7' }, body: { name: 'Ana' } }),
+      { id: '7', name: 'Ana' }
+    );
+    await assert.rejects(api.putUsersById({ params: { id: '7' }, body: {} }), {
+      name: 'FastayClientError',
+      status: 422,
+    });
+  });
+
+  it('rejects two operations with the same function name', async () => {
+    const collisions = await definitions(fixture('client-gen'));
+
+    assert.throws(() => generateClient(collisions, '/api'), {
+      name: 'FastayClientGenError',
+      message: /"list" is generated for two operations/,
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/errors', import.meta.url));
+
+describe('error formats', () => {
+  let problem;
+  let json;
+
+  // Both apps live in the same process; the last one must not win
+  before(async () => {
+    problem = await createTestClient({
+      apiDir,
+      errorFormat: 'problem+json',
+      logging: { level: 'silent' },
+    });
+    json = await createTestClient({ apiDir, logging: { level: 'silent' } });
+  });
+  after(async () => {
+    await problem.close();
+    await json.close();
+  });
+
+  it('answers problem details with errorFormat "problem+json"', async () => {
+    const res = await problem.get('/api/users/7');
+    assert.equal(res.status, 404);
+    assert.match(res.headers['content-type'], /^application\/problem\+json/);
+    assert.equal(res.body.title, 'Not Found');
+    assert.equal(res.body.detail, 'User 7 not found');
+    assert.equal(res.body.code, 'USER_NOT_FOUND');
+    assert.equal(res.body.instance, '/api/users/7');
+  });
+
+  it('answers JSON errors by default', async () => {
+    const res = await json.get('/api/users/7');
+    assert.equal(res.status, 404);
+    assert.match(res.headers['content-type'], /^application\/json/);
+    assert.equal(res.body.error, 'User 7 not found');
+    assert.equal(res.body.code, 'USER_NOT_FOUND');
+  });
+
+  it('formats unmatched routes per app', async () => {
+    const fromProblem = await problem.get('/api/nope');
+    assert.equal(fromProblem.status, 404);
+    assert.equal(fromProblem.body.title, 'Not Found');
+
+    const fromJson = await json.get('/api/nope');
+    assert.equal(fromJson.status, 404);
+    assert.equal(fromJson.body.error, 'Not Found');
+  });
+});
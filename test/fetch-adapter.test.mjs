@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { gunzipSync } from 'node:zlib';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/fetch', import.meta.url));
+
+describe('fetch-style handlers', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({ apiDir, logging: { level: 'silent' } });
+  });
+  after(() => client.close());
+
+  it('passes the URL and params, and sends status and headers', async () => {
+    const res = await client.get('/api/items/7').query({ q: 'lamp' });
+    assert.equal(res.status, 201);
+    assert.equal(res.headers['x-item'], '7');
+    assert.deepEqual(res.body, { id: '7', q: 'lamp' });
+  });
+
+  it('sends every Set-Cookie header', async () => {
+    const res = await client.get('/api/items/7');
+    assert.deepEqual(res.headers['set-cookie'], ['a=1; Path=/', 'b=2; Path=/']);
+  });
+
+  it('replays a JSON body already parsed', async () => {
+    const res = await client.post('/api/items/7').send({ name: 'lamp' });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { id: '7', body: { name: 'lamp' } });
+  });
+
+  it('streams bodies without their declared length', async () => {
+    const res = await client.get('/api/stream');
+    assert.equal(res.text, 'one,two,three');
+    assert.equal(res.headers['content-length'], undefined);
+  });
+
+  it('keeps the content encoding of the body', async () => {
+    const res = await client.get('/api/gzip');
+    assert.equal(res.headers['content-encoding'], 'gzip');
+    assert.equal(gunzipSync(res.raw).toString(), 'compressed');
+  });
+});
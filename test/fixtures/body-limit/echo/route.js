@@ -0,0 +1,3 @@
+export async function POST(req) {
+  return { body: { json: await req.json(), text: await req.text() } };
+}
@@ -0,0 +1,5 @@
+export const config = { bodyLimit: '1kb' };
+
+export async function POST(req) {
+  return { body: { length: (await req.text()).length } };
+}
@@ -0,0 +1 @@
+export const GET = (req) => ({ body: { path: req.params.path ?? null } });
@@ -0,0 +1 @@
+export const GET = (req) => ({ body: { slug: req.params.slug } });
@@ -0,0 +1,3 @@
+export const meta = { operationId: 'list' };
+
+export const GET = () => ({ body: [] });
@@ -0,0 +1,7 @@
+import { NotFound } from '../../../../../dist/index.js';
+
+export function GET(req) {
+  throw new NotFound(`User ${req.params.id} not found`, {
+    code: 'USER_NOT_FOUND',
+  });
+}
@@ -0,0 +1,8 @@
+import { gzipSync } from 'node:zlib';
+
+// A `Response` returned from a regular handler
+export function GET() {
+  return new Response(gzipSync('compressed'), {
+    headers: { 'content-type': 'text/plain', 'content-encoding': 'gzip' },
+  });
+}
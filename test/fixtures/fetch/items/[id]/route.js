@@ -0,0 +1,17 @@
+export const config = { fetch: true };
+
+export function GET(request, { params }) {
+  const url = new URL(request.url);
+  const headers = new Headers({ 'x-item': String(params.id) });
+  headers.append('set-cookie', 'a=1; Path=/');
+  headers.append('set-cookie', 'b=2; Path=/');
+
+  return Response.json(
+    { id: params.id, q: url.searchParams.get('q') },
+    { status: 201, statusText: 'Created Item', headers }
+  );
+}
+
+export async function POST(request, { params }) {
+  return Response.json({ id: params.id, body: await request.json() });
+}
@@ -0,0 +1,18 @@
+export const config = { fetch: true };
+
+export function GET() {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    async start(controller) {
+      for (const chunk of ['one,', 'two,', 'three']) {
+        controller.enqueue(encoder.encode(chunk));
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    headers: { 'content-type': 'text/plain', 'content-length': '999' },
+  });
+}
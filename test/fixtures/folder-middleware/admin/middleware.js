@@ -0,0 +1,12 @@
+export const middleware = [
+  function adminGuard(req, res, next) {
+    if (req.get('x-admin') !== 'yes') {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    next();
+  },
+  function audit(req, res, next) {
+    req.trace.push('admin');
+    next();
+  },
+];
@@ -0,0 +1 @@
+export const GET = (req) => ({ body: { trace: req.trace } });
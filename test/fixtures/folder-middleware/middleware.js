@@ -0,0 +1,4 @@
+export function middleware(req, res, next) {
+  req.trace = ['root'];
+  next();
+}
@@ -0,0 +1,6 @@
+import { setTimeout } from 'node:timers/promises';
+
+export async function GET() {
+  await setTimeout(100);
+  return { body: { done: true } };
+}
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { defineHandler } from '../../../../../dist/index.js';
+
+export const meta = { tags: ['users'] };
+
+/**
+ * Get a user
+ *
+ * Looks the user up by id.
+ */
+export function GET(req) {
+  return { body: { id: req.params.id } };
+}
+
+export const PUT = defineHandler({
+  schema: { body: z.object({ name: z.string() }) },
+  handler: (req) => ({ body: { id: req.params.id, name: req.body.name } }),
+});
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+const User = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  roles: z.array(z.looseObject({ name: z.string() })),
+});
+
+export const config = { response: { 200: User } };
+
+export function GET(req) {
+  const user = {
+    id: Number(req.params.id),
+    name: 'Ana',
+    password: 'secret',
+    roles: [{ name: 'admin', grantedBy: 'root' }],
+  };
+  // "/api/users/0" answers a body that does not match the schema
+  return { body: req.params.id === '0' ? { ...user, id: 'zero' } : user };
+}
@@ -0,0 +1,18 @@
+export const config = {
+  cache: { maxAge: 60 },
+  bodyLimit: '1kb',
+  POST: { bodyLimit: '2kb', accepts: 'application/json' },
+};
+
+export function GET(req) {
+  if (req.query.missing) return { status: 404, body: { error: 'Missing' } };
+  return { body: [] };
+}
+
+export function POST(req) {
+  return { status: 201, body: { name: req.body.name } };
+}
+
+export function PUT(req) {
+  return { body: { name: req.body.name } };
+}
@@ -0,0 +1,12 @@
+import { defineHandler } from '../../../../dist/index.js';
+
+export const config = { timeout: 50 };
+
+// The handler's own config overrides the module's
+export const GET = defineHandler({
+  timeout: 500,
+  handler: async () => {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    return { body: { late: false } };
+  },
+});
@@ -0,0 +1,6 @@
+export const config = { timeout: 50 };
+
+export async function GET() {
+  await new Promise((resolve) => setTimeout(resolve, 200));
+  return { body: { late: true } };
+}
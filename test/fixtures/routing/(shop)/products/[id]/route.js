@@ -0,0 +1 @@
+export const GET = (req) => ({ body: { product: req.params.id } });
@@ -0,0 +1,2 @@
+// Private folder: never routed
+export const GET = () => ({ body: { private: true } });
@@ -0,0 +1 @@
+export const GET = (req) => ({ body: { user: req.params.id } });
@@ -0,0 +1 @@
+export const GET = (req) => ({ body: { route: 'rest', rest: req.params.rest } });
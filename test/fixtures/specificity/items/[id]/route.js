@@ -0,0 +1 @@
+export const GET = (req) => ({ body: { route: 'id', id: req.params.id } });
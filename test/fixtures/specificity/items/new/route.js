@@ -0,0 +1 @@
+export const GET = () => ({ body: { route: 'new' } });
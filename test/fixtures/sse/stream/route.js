@@ -0,0 +1,2 @@
+// Replaced with `overrideRoute` by the tests
+export const GET = () => ({ status: 204 });
@@ -0,0 +1,4 @@
+export function GET(req) {
+  if (req.params.id === '0') throw new Error('database down');
+  return { body: { id: req.params.id } };
+}
@@ -0,0 +1,4 @@
+export function middleware(req, res, next) {
+  res.setHeader('x-guard', 'real');
+  next();
+}
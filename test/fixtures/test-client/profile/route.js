@@ -0,0 +1,10 @@
+export async function POST(req) {
+  const form = await req.formData();
+  const avatar = form.get('avatar');
+  return {
+    body: {
+      name: form.get('name'),
+      avatar: { name: avatar.name, size: avatar.size, type: avatar.type },
+    },
+  };
+}
@@ -0,0 +1,8 @@
+export const POST = () => ({
+  body: { ok: true },
+  cookies: { session: { value: 'abc' } },
+});
+
+export const GET = (req) => ({
+  body: { session: req.cookies.get('session')?.value ?? null },
+});
@@ -0,0 +1,6 @@
+export const config = { uploads: { limits: { files: Infinity } } };
+
+export async function POST(req) {
+  const form = await req.formData();
+  return { body: { files: form.getAll('file').length } };
+}
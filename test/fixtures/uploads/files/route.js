@@ -0,0 +1,4 @@
+export async function POST(req) {
+  const form = await req.formData();
+  return { body: { files: form.getAll('file').map((file) => file.size) } };
+}
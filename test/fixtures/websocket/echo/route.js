@@ -0,0 +1,7 @@
+export const WS = {
+  maxPayload: 16,
+  heartbeat: 50,
+  message(socket, data) {
+    socket.send(data);
+  },
+};
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(
+  new URL('./fixtures/folder-middleware', import.meta.url)
+);
+
+describe('folder middleware', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({ apiDir, logging: { level: 'silent' } });
+  });
+  after(() => client.close());
+
+  it('applies a folder middleware.ts to the routes below it', async () => {
+    const res = await client.get('/api/public');
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { trace: ['root'] });
+  });
+
+  it('runs nested middleware from the outermost folder inwards', async () => {
+    const res = await client.get('/api/admin/stats').set('x-admin', 'yes');
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { trace: ['root', 'admin'] });
+  });
+
+  it('lets a folder middleware answer before the route runs', async () => {
+    const res = await client.get('/api/admin/stats');
+    assert.equal(res.status, 401);
+    assert.deepEqual(res.body, { error: 'Unauthorized' });
+  });
+});
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/lifecycle', import.meta.url));
+
+const healthClient = (health) =>
+  createTestClient({ apiDir, health, logging: { level: 'silent' } });
+
+describe('health probes', () => {
+  it('answers liveness at /health and /health/live', async () => {
+    const client = await healthClient(true);
+    try {
+      await client.get('/health').expect(200, { ok: true });
+      await client.get('/health/live').expect(200, { ok: true });
+      await client
+        .get('/health/ready')
+        .expect(200, { ok: true, state: 'ready' });
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('is not ready while a critical check fails', async () => {
+    const client = await healthClient({
+      checks: {
+        db: () => {
+          throw new Error('connection refused');
+        },
+        cache: { check: () => Promise.reject(), critical: false },
+      },
+    });
+    try {
+      await client
+        .get('/health/ready')
+        .expect(503, { ok: false, state: 'ready' });
+      // Liveness does not run the checks
+      await client.get('/health/live').expect(200);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('reports each check when details is enabled', async () => {
+    const client = await healthClient({
+      details: true,
+      timeout: 20,
+      checks: {
+        cache: { check: () => Promise.reject(), critical: false },
+        search: () => new Promise(() => {}),
+      },
+    });
+    client.app.fastay.healthCheck('db', () => {});
+    try {
+      const res = await client.get('/health/ready').expect(503);
+      const { cache, search, db } = res.body.checks;
+
+      assert.deepEqual(
+        [cache.status, cache.critical, search.status, db.status],
+        ['fail', false, 'fail', 'pass']
+      );
+      assert.equal(search.error, 'Timed out after 20ms');
+      assert.equal(typeof db.latency, 'number');
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('is not ready once the app is closing', async () => {
+    const client = await healthClient(true);
+    await client.close();
+
+    await client
+      .get('/health/ready')
+      .expect(503, { ok: false, state: 'stopping' });
+  });
+
+  it('serves no probes with health: false', async () => {
+    const client = await healthClient(false);
+    try {
+      await client.get('/health').expect(404);
+    } finally {
+      await client.close();
+    }
+  });
+});
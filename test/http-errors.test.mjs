@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import {
+  Conflict,
+  createTestClient,
+  HttpError,
+  ServiceUnavailable,
+  TooManyRequests,
+} from '../dist/index.js';
+import { createErrorHandler } from '../dist/error-handler.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/errors', import.meta.url));
+
+const throwing = (error) => ({
+  GET: () => {
+    throw error;
+  },
+});
+
+for (const [name, errorHandler] of [
+  ['default error handler', undefined],
+  ['createErrorHandler', createErrorHandler({ logDetails: false })],
+]) {
+  describe(`HTTP errors (${name})`, () => {
+    let client;
+
+    before(async () => {
+      client = await createTestClient({
+        apiDir,
+        expressOptions: { errorHandler },
+        logging: { level: 'silent' },
+      });
+    });
+    after(() => client.close());
+    afterEach(() => client.restoreMocks());
+
+    it('answers with the status and code of the error', async () => {
+      const res = await client.get('/api/users/7').expect(404);
+      assert.equal(res.body.error, 'User 7 not found');
+      assert.equal(res.body.code, 'USER_NOT_FOUND');
+      assert.ok(res.body.requestId);
+      assert.equal(res.body.requestId, res.headers['x-request-id']);
+    });
+
+    it('sends details and a derived code', async () => {
+      client.mockRoute(
+        '/api/users/:id',
+        throwing(new Conflict('Email taken', { details: { field: 'email' } }))
+      );
+
+      const res = await client.get('/api/users/7').expect(409);
+      assert.equal(res.body.code, 'CONFLICT');
+      assert.deepEqual(res.body.details, { field: 'email' });
+    });
+
+    it('sets the headers of the error', async () => {
+      client.mockRoute(
+        '/api/users/:id',
+        throwing(new TooManyRequests('Slow down', { retryAfter: 30 }))
+      );
+
+      await client.get('/api/users/7').expect(429).expect('retry-after', '30');
+    });
+
+    it('hides the message of server errors', async () => {
+      client.mockRoute(
+        '/api/users/:id',
+        throwing(
+          new ServiceUnavailable('Pool exhausted at db-1:5432', {
+            details: { host: 'db-1' },
+          })
+        )
+      );
+
+      const res = await client.get('/api/users/7').expect(503);
+      assert.equal(res.body.error, 'Service Unavailable');
+      assert.equal(res.body.details, undefined);
+    });
+
+    it('accepts any status on HttpError', async () => {
+      client.mockRoute(
+        '/api/users/:id',
+        throwing(new HttpError(418, "I'm a teapot", { code: 'TEAPOT' }))
+      );
+
+      const res = await client.get('/api/users/7').expect(418);
+      assert.equal(res.body.code, 'TEAPOT');
+    });
+  });
+}
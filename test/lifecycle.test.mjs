@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createApp, createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/lifecycle', import.meta.url));
+
+describe('lifecycle hooks', () => {
+  it('calls onReady once the routes are loaded', async () => {
+    let routes;
+    const client = await createTestClient({
+      apiDir,
+      logging: { level: 'silent' },
+      onReady: (app) => {
+        routes = app.fastay.routes().map(({ path }) => path);
+      },
+    });
+    await client.close();
+
+    assert.deepEqual(routes, ['/api/slow']);
+  });
+
+  it('runs onRequest before the routes', async () => {
+    const client = await createTestClient({
+      apiDir,
+      logging: { level: 'silent' },
+      onRequest: (req, res) => {
+        if (req.get('x-reject')) throw new Error('rejected');
+        res.setHeader('x-seen', 'yes');
+      },
+    });
+    try {
+      await client.get('/api/slow').expect(200).expect('x-seen', 'yes');
+      await client.get('/api/slow').set('x-reject', '1').expect(500);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('runs the cleanups once, latest first', async () => {
+    const calls = [];
+    const client = await createTestClient({
+      apiDir,
+      logging: { level: 'silent' },
+      onClose: () => calls.push('options'),
+    });
+    client.app.fastay.onClose(async () => calls.push('pool'));
+
+    await Promise.all([client.close(), client.close()]);
+    await client.close();
+
+    assert.deepEqual(calls, ['pool', 'options']);
+  });
+
+  it('drains in-flight requests before closing', async () => {
+    const { server, close } = await createApp({
+      apiDir,
+      mode: 'prod',
+      port: 0,
+      logging: { level: 'silent' },
+    });
+    const url = `http://localhost:${server.address().port}/api/slow`;
+
+    const inFlight = fetch(url);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const closed = close();
+
+    const res = await inFlight;
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { done: true });
+    await closed;
+
+    assert.equal(server.listening, false);
+    await assert.rejects(fetch(url));
+  });
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+
+const loggerUrl = new URL('../dist/logger.js', import.meta.url).href;
+const indexUrl = new URL('../dist/index.js', import.meta.url).href;
+const apiDir = fileURLToPath(new URL('./fixtures/errors', import.meta.url));
+
+/** Runs `code` in a fresh process with `logger` configured; returns stdout. */
+async function run(options, code) {
+  const script = `
+    import { configureLogger, logger, baseLogger } from ${JSON.stringify(loggerUrl)};
+    configureLogger(${JSON.stringify(options)});
+    ${code}
+  `;
+  const { stdout } = await promisify(execFile)(
+    process.execPath,
+    ['--input-type=module', '-e', script],
+    { env: { ...process.env, NO_COLOR: '1' } }
+  );
+  return stdout;
+}
+
+describe('logger', () => {
+  it('logs pretty warnings and errors at their own level', async () => {
+    const out = await run(
+      { format: 'pretty', level: 'warn' },
+      `logger.info('info line'); logger.warn('warn line'); logger.error('error line');`
+    );
+
+    assert.doesNotMatch(out, /info line/);
+    assert.match(out, /warn line/);
+    assert.match(out, /error line/);
+  });
+
+  it('keeps the stack of attached errors in pretty output', async () => {
+    const out = await run(
+      { format: 'pretty' },
+      `baseLogger().error({ err: new Error('boom'), route: '/x' }, 'failed');`
+    );
+
+    assert.match(out, /failed/);
+    assert.match(out, /Error: boom\n\s+at /);
+    assert.doesNotMatch(out, /route/);
+  });
+
+  it('writes JSON lines with numeric levels', async () => {
+    const out = await run(
+      { format: 'json', level: 'warn' },
+      `logger.info('info line'); logger.warn('warn line'); logger.error('error line');`
+    );
+    const lines = out
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    assert.deepEqual(
+      lines.map(({ level, msg }) => [level, msg]),
+      [
+        [40, 'warn line'],
+        [50, 'error line'],
+      ]
+    );
+  });
+
+  it('keeps the logging options of each app', async () => {
+    const out = await run(
+      { level: 'silent' },
+      `
+      const { createTestClient } = await import(${JSON.stringify(indexUrl)});
+      const apiDir = ${JSON.stringify(apiDir)};
+      const json = await createTestClient({ apiDir, logging: { format: 'json' } });
+      const quiet = await createTestClient({ apiDir, logging: { level: 'silent' } });
+      await json.get('/api/users/7');
+      await quiet.get('/api/users/8');
+      await json.close();
+      await quiet.close();
+      `
+    );
+    const urls = out
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+      .filter((line) => line.url)
+      .map((line) => line.url);
+
+    assert.deepEqual(urls, ['/api/users/7']);
+  });
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/telemetry', import.meta.url));
+
+describe('metrics', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({
+      apiDir,
+      metrics: { token: 's3cret' },
+      logging: { level: 'silent' },
+    });
+  });
+  after(() => client.close());
+
+  const scrape = () =>
+    client
+      .get('/metrics')
+      .set('authorization', 'Bearer s3cret')
+      .expect(200)
+      .expect('content-type', /^text\/plain;.*version=0\.0\.4/);
+
+  it('counts requests by route pattern and status class', async () => {
+    await client.get('/api/users/7').expect(200);
+    await client.get('/api/users/8').expect(200);
+    await client.get('/api/users/0').expect(500);
+    await client.get('/api/unknown/path').expect(404);
+
+    const { text } = await scrape();
+    assert.match(text, /^# TYPE fastay_http_requests_total counter$/m);
+    assert.match(
+      text,
+      /^fastay_http_requests_total\{method="GET",route="\/api\/users\/:id",status="2xx"\} 2$/m
+    );
+    assert.match(
+      text,
+      /^fastay_http_requests_total\{method="GET",route="\/api\/users\/:id",status="5xx"\} 1$/m
+    );
+    assert.match(
+      text,
+      /^fastay_http_requests_total\{method="GET",route="unmatched",status="4xx"\} 1$/m
+    );
+  });
+
+  it('records latency and response size histograms', async () => {
+    const { text } = await scrape();
+    assert.match(
+      text,
+      /^# TYPE fastay_http_request_duration_seconds histogram$/m
+    );
+    assert.match(
+      text,
+      /^fastay_http_request_duration_seconds_bucket\{method="GET",route="\/api\/users\/:id",status="2xx",le="\+Inf"\} 2$/m
+    );
+    // {"id":"7"} and {"id":"8"}
+    assert.match(
+      text,
+      /^fastay_http_response_size_bytes_sum\{method="GET",route="\/api\/users\/:id",status="2xx"\} 20$/m
+    );
+  });
+
+  it('collects Node process metrics', async () => {
+    const { text } = await scrape();
+    assert.match(text, /^nodejs_eventloop_lag_seconds \d/m);
+    assert.match(text, /^nodejs_heap_size_used_bytes \d+$/m);
+  });
+
+  it('requires the token', async () => {
+    await client
+      .get('/metrics')
+      .expect(401)
+      .expect('www-authenticate', 'Bearer');
+    await client
+      .get('/metrics')
+      .set('authorization', 'Bearer wrong')
+      .expect(401);
+  });
+});
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/openapi', import.meta.url));
+
+describe('OpenAPI document', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({
+      apiDir,
+      openapi: { toJsonSchema: (schema) => z.toJSONSchema(schema) },
+      logging: { level: 'silent' },
+    });
+  });
+  after(() => client.close());
+
+  it('serves an OpenAPI 3.1 document at /openapi.json', async () => {
+    const res = await client.get('/openapi.json');
+    assert.equal(res.status, 200);
+    assert.equal(res.body.openapi, '3.1.0');
+    assert.deepEqual(Object.keys(res.body.paths), ['/api/users/{id}']);
+  });
+
+  it('documents path params, JSDoc summaries and meta tags', async () => {
+    const { body } = await client.get('/openapi.json');
+    const get = body.paths['/api/users/{id}'].get;
+
+    assert.equal(get.summary, 'Get a user');
+    assert.equal(get.description, 'Looks the user up by id.');
+    assert.deepEqual(get.tags, ['users']);
+    assert.deepEqual(get.parameters, [
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+    ]);
+  });
+
+  it('documents the request body from the route schema', async () => {
+    const { body } = await client.get('/openapi.json');
+    const put = body.paths['/api/users/{id}'].put;
+
+    assert.equal(put.requestBody.required, true);
+    assert.deepEqual(
+      put.requestBody.content['application/json'].schema.properties,
+      { name: { type: 'string' } }
+    );
+  });
+
+  it('serves no docs page unless docsPath is set', async () => {
+    assert.equal((await client.get('/docs')).status, 404);
+
+    const docs = await createTestClient({
+      apiDir,
+      openapi: { docsPath: '/docs' },
+      logging: { level: 'silent' },
+    });
+    try {
+      const res = await docs.get('/docs');
+      assert.equal(res.status, 200);
+      assert.match(res.headers['content-type'], /text\/html/);
+      assert.match(res.text, /data-url="\/openapi.json"/);
+    } finally {
+      await docs.close();
+    }
+  });
+});
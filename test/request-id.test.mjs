@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(
+  new URL('./fixtures/route-config', import.meta.url)
+);
+
+describe('request ids', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({ apiDir, logging: { level: 'silent' } });
+  });
+  after(() => client.close());
+
+  it('generates an id and sends it back', async () => {
+    const res = await client.get('/api/items');
+    assert.match(res.headers['x-request-id'], /^[\da-f-]{36}$/);
+  });
+
+  it('reuses a safe incoming id', async () => {
+    const res = await client.get('/api/items').set('x-request-id', 'req-42');
+    assert.equal(res.headers['x-request-id'], 'req-42');
+  });
+
+  it('replaces an unsafe incoming id', async () => {
+    const res = await client
+      .get('/api/items')
+      .set('x-request-id', 'bad id\twith spaces');
+    assert.notEqual(res.headers['x-request-id'], 'bad id\twith spaces');
+  });
+
+  for (const [name, send, status] of [
+    ['unmatched routes', (c) => c.get('/api/nope'), 404],
+    ['unsupported media types', (c) => c.post('/api/items').send('x'), 415],
+    ['handler timeouts', (c) => c.get('/api/slow'), 504],
+    [
+      'bodies over the limit',
+      (c) => c.put('/api/items').send({ name: 'x'.repeat(2000) }),
+      413,
+    ],
+  ]) {
+    it(`carries the id in the error body of ${name}`, async () => {
+      const res = await send(client);
+      assert.equal(res.status, status);
+      assert.equal(res.body.requestId, res.headers['x-request-id']);
+    });
+  }
+});
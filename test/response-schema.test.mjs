@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import { createTestClient } from '../dist/index.js';
+import { prepareResponseBody } from '../dist/validation.js';
+
+const apiDir = fileURLToPath(
+  new URL('./fixtures/response-schema', import.meta.url)
+);
+
+describe('response schemas', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({ apiDir, logging: { level: 'silent' } });
+  });
+  after(() => client.close());
+
+  it('removes fields the schema does not declare', async () => {
+    const res = await client.get('/api/users/7');
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, {
+      id: 7,
+      name: 'Ana',
+      roles: [{ name: 'admin' }],
+    });
+  });
+
+  it('fails a mismatching body outside production', async () => {
+    const res = await client.get('/api/users/0');
+    assert.equal(res.status, 500);
+    assert.doesNotMatch(res.text, /secret/);
+  });
+});
+
+describe('response schemas in production', () => {
+  const env = process.env.NODE_ENV;
+  afterEach(() => {
+    process.env.NODE_ENV = env;
+  });
+
+  it('sends the stripped body instead of failing', async () => {
+    process.env.NODE_ENV = 'production';
+    const schema = z.looseObject({ id: z.number() });
+
+    const { body } = await prepareResponseBody(
+      200,
+      { id: 'zero', password: 'secret' },
+      { 200: schema }
+    );
+    assert.deepEqual(body, { id: 'zero' });
+  });
+});
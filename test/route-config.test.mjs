@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(
+  new URL('./fixtures/route-config', import.meta.url)
+);
+
+// Records the body global middleware sees
+const seenBody = (req, res, next) => {
+  res.setHeader('x-seen-body', JSON.stringify(req.body ?? null));
+  next();
+};
+
+const named = (size) => ({ name: 'x'.repeat(size) });
+
+describe('route config', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({
+      apiDir,
+      expressOptions: { middlewares: [seenBody] },
+      logging: { level: 'silent' },
+    });
+  });
+  after(() => client.close());
+
+  it('sets the cache policy on successful responses', async () => {
+    const res = await client.get('/api/items');
+    assert.equal(res.status, 200);
+    assert.equal(res.headers['cache-control'], 'public, max-age=60');
+  });
+
+  it('does not cache error responses', async () => {
+    const res = await client.get('/api/items').query({ missing: 1 });
+    assert.equal(res.status, 404);
+    assert.equal(res.headers['cache-control'], undefined);
+  });
+
+  it('answers 415 for a type the method does not accept', async () => {
+    const res = await client.post('/api/items').send('name=lamp');
+    assert.equal(res.status, 415);
+  });
+
+  it('applies the shared body limit', async () => {
+    const res = await client.put('/api/items').send(named(1500));
+    assert.equal(res.status, 413);
+  });
+
+  it('lets a method override the shared config', async () => {
+    const res = await client.post('/api/items').send(named(1500));
+    assert.equal(res.status, 201);
+  });
+
+  it('answers 504 when the handler does not answer in time', async () => {
+    const res = await client.get('/api/slow');
+    assert.equal(res.status, 504);
+  });
+
+  it('prefers the handler config over the module config', async () => {
+    const res = await client.get('/api/quick');
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { late: false });
+  });
+
+  it('parses JSON bodies before global middleware', async () => {
+    const res = await client.put('/api/items').send({ name: 'lamp' });
+    assert.equal(res.headers['x-seen-body'], '{"name":"lamp"}');
+  });
+});
+
+describe('route config with route-level JSON parsing', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({
+      apiDir,
+      jsonParsing: 'route',
+      expressOptions: { middlewares: [seenBody] },
+      logging: { level: 'silent' },
+    });
+  });
+  after(() => client.close());
+
+  it('parses bodies once the route has matched', async () => {
+    const res = await client.put('/api/items').send({ name: 'lamp' });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { name: 'lamp' });
+    assert.equal(res.headers['x-seen-body'], 'null');
+  });
+
+  it('applies the route body limit', async () => {
+    const res = await client.put('/api/items').send(named(1500));
+    assert.equal(res.status, 413);
+  });
+});
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(
+  new URL('./fixtures/specificity', import.meta.url)
+);
+
+for (const router of ['express', 'radix']) {
+  describe(`route specificity (${router} router)`, () => {
+    let client;
+
+    before(async () => {
+      client = await createTestClient({
+        apiDir,
+        router,
+        logging: { level: 'silent' },
+      });
+    });
+    after(() => client.close());
+
+    it('prefers static segments over params', async () => {
+      const res = await client.get('/api/items/new');
+      assert.deepEqual(res.body, { route: 'new' });
+    });
+
+    it('prefers params over catch-alls', async () => {
+      const res = await client.get('/api/items/7');
+      assert.deepEqual(res.body, { route: 'id', id: '7' });
+    });
+
+    it('falls back to the catch-all for deeper paths', async () => {
+      const res = await client.get('/api/items/7/history');
+      assert.deepEqual(res.body, { route: 'rest', rest: ['7', 'history'] });
+    });
+
+    it('lists the routes from most to least specific', () => {
+      const routes = client.app.fastay.routes().map(({ path }) => path);
+      assert.deepEqual(routes, [
+        '/api/items/new',
+        '/api/items/:id',
+        '/api/items/*rest',
+      ]);
+    });
+  });
+}
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const fixture = (name) =>
+  fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+
+describe('file-system routing', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({
+      apiDir: fixture('routing'),
+      logging: { level: 'silent' },
+    });
+  });
+  after(() => client.close());
+
+  it('leaves route groups out of the URL', async () => {
+    const res = await client.get('/api/products/7');
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { product: '7' });
+  });
+
+  it('does not route private folders', async () => {
+    assert.equal((await client.get('/api/_lib/helpers')).status, 404);
+    assert.equal((await client.get('/api/helpers')).status, 404);
+  });
+
+  it('lists the routes with their source file', () => {
+    const routes = client.app.fastay
+      .routes()
+      .map(({ method, path }) => [method, path]);
+    assert.deepEqual(routes, [
+      ['GET', '/api/products/:id'],
+      ['GET', '/api/users/:id'],
+    ]);
+  });
+});
+
+describe('route conflicts', () => {
+  for (const [name, route] of [
+    ['group', '/api/users'],
+    ['optional', '/api/guides'],
+  ]) {
+    it(`rejects two files serving ${route} (${name})`, async () => {
+      await assert.rejects(
+        createTestClient({
+          apiDir: fixture(`conflicts/${name}`),
+          logging: { level: 'silent' },
+        }),
+        { name: 'FastayRouteConflictError' }
+      );
+    });
+  }
+});
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createApp, sse } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/sse', import.meta.url));
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Starts an app on a random port. */
+async function start() {
+  let server;
+  const { app, close } = await createApp({
+    apiDir,
+    mode: 'test',
+    logging: { level: 'silent' },
+    shutdown: { timeout: 5000 },
+    onReady: (_app, created) => {
+      server = created;
+    },
+  });
+  await new Promise((resolve) => server.listen(0, resolve));
+  return { app, close, port: server.address().port };
+}
+
+/** Opens the event stream; resolves once the first event arrived. */
+function connect(port) {
+  return new Promise((resolve, reject) => {
+    const req = http.get({ port, path: '/api/stream' }, (res) => {
+      let text = '';
+      const ended = new Promise((done) => res.on('end', done));
+      res.setEncoding('utf8');
+      res.on('data', (chunk) => {
+        text += chunk;
+        resolve({ req, ended, text: () => text });
+      });
+    });
+    req.on('error', reject);
+  });
+}
+
+/** An endless event source recording when it is stopped. */
+function ticker(state, { failOnStop = false } = {}) {
+  return sse(
+    async function* () {
+      try {
+        for (let i = 0; ; i++) {
+          yield { id: i, data: { i } };
+          await wait(10);
+        }
+      } finally {
+        state.stopped = true;
+        if (failOnStop) throw new Error('cleanup failed');
+      }
+    },
+    { heartbeat: false }
+  );
+}
+
+describe('server-sent events', () => {
+  let server;
+  const rejections = [];
+  const onRejection = (err) => rejections.push(err);
+
+  before(async () => {
+    process.on('unhandledRejection', onRejection);
+    server = await start();
+  });
+  after(async () => {
+    process.off('unhandledRejection', onRejection);
+    await server.close();
+  });
+  afterEach(() => {
+    rejections.length = 0;
+  });
+
+  it('formats events', async () => {
+    const state = {};
+    const restore = server.app.fastay.overrideRoute('/api/stream', {
+      GET: () => ticker(state),
+    });
+
+    const stream = await connect(server.port);
+    stream.req.destroy();
+    restore();
+
+    assert.match(stream.text(), /^id: 0\ndata: {"i":0}\n\n/);
+  });
+
+  it('stops the source when the client disconnects', async () => {
+    const state = {};
+    const restore = server.app.fastay.overrideRoute('/api/stream', {
+      GET: () => ticker(state, { failOnStop: true }),
+    });
+
+    const stream = await connect(server.port);
+    stream.req.destroy();
+    await wait(100);
+    restore();
+
+    assert.equal(state.stopped, true);
+    assert.deepEqual(rejections, []);
+  });
+});
+
+describe('server-sent events on shutdown', () => {
+  it('ends open streams instead of waiting for the timeout', async () => {
+    const server = await start();
+    const state = {};
+    server.app.fastay.overrideRoute('/api/stream', {
+      GET: () => ticker(state),
+    });
+
+    const stream = await connect(server.port);
+    const started = Date.now();
+    await server.close();
+    await stream.ended;
+
+    assert.ok(Date.now() - started < 1000);
+    // The source is stopped at its next `yield`
+    await wait(50);
+    assert.equal(state.stopped, true);
+  });
+});
@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { trace } from '@opentelemetry/api';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/telemetry', import.meta.url));
+
+/** Tracer provider keeping every started span in `spans`. */
+function memoryTracerProvider() {
+  const spans = [];
+  const tracer = {
+    startSpan(name, options = {}, context) {
+      const parent = context && trace.getSpan(context);
+      const spanContext = {
+        traceId:
+          parent?.spanContext().traceId ?? randomBytes(16).toString('hex'),
+        spanId: randomBytes(8).toString('hex'),
+        traceFlags: 1,
+      };
+      const span = {
+        name,
+        parent,
+        attributes: { ...options.attributes },
+        exceptions: [],
+        status: undefined,
+        ended: false,
+        spanContext: () => spanContext,
+        updateName(next) {
+          span.name = next;
+        },
+        setAttribute(key, value) {
+          span.attributes[key] = value;
+        },
+        recordException(err) {
+          span.exceptions.push(err.message);
+        },
+        setStatus(status) {
+          span.status = status;
+        },
+        end() {
+          span.ended = true;
+        },
+      };
+      spans.push(span);
+      return span;
+    },
+  };
+  return { spans, getTracer: () => tracer };
+}
+
+/** Meter provider summing counters and collecting histogram values. */
+function memoryMeterProvider() {
+  const counters = {};
+  const histograms = {};
+  const meter = {
+    createUpDownCounter: (name) => ({
+      add: (value) => (counters[name] = (counters[name] ?? 0) + value),
+    }),
+    createHistogram: (name) => ({
+      record: (value, attributes) =>
+        (histograms[name] ??= []).push({ value, attributes }),
+    }),
+  };
+  return { counters, histograms, getMeter: () => meter };
+}
+
+describe('telemetry', () => {
+  let client;
+  let tracerProvider;
+  let meterProvider;
+
+  before(async () => {
+    tracerProvider = memoryTracerProvider();
+    meterProvider = memoryMeterProvider();
+    client = await createTestClient({
+      apiDir,
+      telemetry: { tracerProvider, meterProvider },
+      middlewares: {
+        '/api': [
+          function auth(req, res, next) {
+            next();
+          },
+        ],
+      },
+      logging: { level: 'silent' },
+    });
+  });
+  after(() => client.close());
+  beforeEach(() => {
+    tracerProvider.spans.length = 0;
+  });
+
+  it('names the server span after the route pattern', async () => {
+    await client.get('/api/users/7').expect(200);
+
+    const [server] = tracerProvider.spans;
+    assert.equal(server.name, 'GET /api/users/:id');
+    assert.equal(server.attributes['http.route'], '/api/users/:id');
+    assert.equal(server.attributes['http.response.status_code'], 200);
+    assert.ok(tracerProvider.spans.every((span) => span.ended));
+  });
+
+  it('opens child spans for middleware and the handler', async () => {
+    await client.get('/api/users/7').expect(200);
+
+    const children = tracerProvider.spans
+      .filter((span) => span.parent)
+      .map(({ name, parent }) => [name, parent.name]);
+    assert.deepEqual(children, [
+      ['middleware auth', 'GET /api/users/:id'],
+      ['handler GET /api/users/:id', 'GET /api/users/:id'],
+    ]);
+  });
+
+  it('records errors on the spans', async () => {
+    await client.get('/api/users/0').expect(500);
+
+    const server = tracerProvider.spans.find((span) => !span.parent);
+    const handler = tracerProvider.spans.find((span) =>
+      span.name.startsWith('handler')
+    );
+    assert.deepEqual(handler.exceptions, ['database down']);
+    assert.deepEqual(server.exceptions, ['database down']);
+    assert.equal(server.status.code, 2);
+  });
+
+  it('records request duration and in-flight requests', async () => {
+    await client.get('/api/users/7').expect(200);
+
+    const { counters, histograms } = meterProvider;
+    assert.equal(counters['http.server.active_requests'], 0);
+    const last = histograms['http.server.request.duration'].at(-1);
+    assert.equal(typeof last.value, 'number');
+    assert.deepEqual(last.attributes, {
+      'http.request.method': 'GET',
+      'http.response.status_code': 200,
+      'http.route': '/api/users/:id',
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(
+  new URL('./fixtures/test-client', import.meta.url)
+);
+
+describe('test client', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({ apiDir, logging: { level: 'silent' } });
+  });
+  after(() => client.close());
+
+  it('asserts with expect and resolves to the response', async () => {
+    const res = await client
+      .get('/api/session')
+      .expect(200, { session: null })
+      .expect('content-type', /json/);
+    assert.equal(res.headers['x-guard'], 'real');
+
+    await assert.rejects(client.get('/api/session').expect(404), {
+      name: 'AssertionError',
+    });
+  });
+
+  it('keeps the cookies set by responses', async () => {
+    await client.post('/api/session').expect(200);
+    assert.equal(client.cookies.get('session')?.value, 'abc');
+
+    await client.get('/api/session').expect({ session: 'abc' });
+
+    client.cookies.clear();
+    await client.get('/api/session').expect({ session: null });
+  });
+
+  it('sends multipart fields and files', async () => {
+    await client
+      .post('/api/profile')
+      .field('name', 'Ana')
+      .attach('avatar', Buffer.from('png bytes'), 'avatar.png')
+      .expect(200, {
+        name: 'Ana',
+        avatar: { name: 'avatar.png', size: 9, type: 'image/png' },
+      });
+  });
+
+  it('mocks routes and middleware until restoreMocks', async () => {
+    client.mockRoute('/api/session', {
+      GET: () => ({ body: { session: 'mocked' } }),
+    });
+    client.mockMiddleware('', (req, res, next) => {
+      res.setHeader('x-guard', 'mock');
+      next();
+    });
+
+    await client
+      .get('/api/session')
+      .expect({ session: 'mocked' })
+      .expect('x-guard', 'mock');
+
+    client.restoreMocks();
+    await client
+      .get('/api/session')
+      .expect({ session: null })
+      .expect('x-guard', 'real');
+  });
+});
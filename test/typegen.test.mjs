@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { writeRouteTypes } from '../dist/typegen.js';
+
+const fixture = (name) =>
+  fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+const indexFile = fileURLToPath(new URL('../dist/index.js', import.meta.url));
+const tsc = fileURLToPath(
+  new URL('../node_modules/typescript/bin/tsc', import.meta.url)
+);
+
+/** Type-checks `source` against the route types; resolves to tsc's output. */
+async function typeCheck(dir, source) {
+  const file = path.join(dir, 'check.ts');
+  fs.writeFileSync(file, source);
+  try {
+    await promisify(execFile)(process.execPath, [
+      tsc,
+      '--noEmit',
+      '--strict',
+      '--skipLibCheck',
+      '--module',
+      'nodenext',
+      path.join(dir, 'types.d.ts'),
+      file,
+    ]);
+    return '';
+  } catch (err) {
+    return err.stdout;
+  }
+}
+
+describe('route types', () => {
+  let dir;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fastay-types-'));
+  });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('declares the params of each route from its folders', () => {
+    const out = path.join(dir, 'types.d.ts');
+    const { file, routes } = writeRouteTypes(fixture('catch-all'), '/api', out);
+
+    assert.equal(file, out);
+    assert.equal(routes, 2);
+    const source = fs.readFileSync(out, 'utf-8');
+    assert.match(
+      source,
+      /"\/api\/files\{\/\*path\}": \{ "path"\?: string\[\] \};/
+    );
+    assert.match(source, /"\/api\/guides\/\*slug": \{ "slug": string\[\] \};/);
+  });
+
+  it('types req.params in RouteHandler', { timeout: 60_000 }, async () => {
+    writeRouteTypes(fixture('routing'), '/api', path.join(dir, 'types.d.ts'));
+    const header = `import type { RouteHandler } from ${JSON.stringify(indexFile)};\n`;
+
+    assert.equal(
+      await typeCheck(
+        dir,
+        `${header}export const GET: RouteHandler<'/api/users/:id'> = (req) => ({ body: req.params.id.length });\n`
+      ),
+      ''
+    );
+    assert.match(
+      await typeCheck(
+        dir,
+        `${header}export const GET: RouteHandler<'/api/users/:id'> = (req) => ({ body: req.params.ids });\n`
+      ),
+      /Property 'ids' does not exist/
+    );
+  });
+});
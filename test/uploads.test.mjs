@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { createTestClient } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/uploads', import.meta.url));
+
+describe('upload limits', () => {
+  let client;
+
+  before(async () => {
+    client = await createTestClient({ apiDir, logging: { level: 'silent' } });
+  });
+  after(() => client.close());
+
+  const upload = (path, count, size = 1) => {
+    const req = client.post(path);
+    for (let i = 0; i < count; i++) {
+      req.attach('file', Buffer.alloc(size), `file-${i}.bin`);
+    }
+    return req;
+  };
+
+  it('accepts uploads within the default limits', async () => {
+    const res = await upload('/api/files', 10, 1024);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.files.length, 10);
+  });
+
+  it('rejects more than 10 files by default', async () => {
+    const res = await upload('/api/files', 11);
+    assert.equal(res.status, 413);
+  });
+
+  it('rejects files over 10 MiB by default', async () => {
+    const res = await upload('/api/files', 1, 10 * 1024 * 1024 + 1);
+    assert.equal(res.status, 413);
+  });
+
+  it('lifts a default limit set to Infinity', async () => {
+    const res = await upload('/api/bulk', 11);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.files, 11);
+  });
+});
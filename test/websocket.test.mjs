@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import WebSocket from 'ws';
+import { createApp } from '../dist/index.js';
+
+const apiDir = fileURLToPath(new URL('./fixtures/websocket', import.meta.url));
+
+describe('websocket routes', () => {
+  let close;
+  let url;
+
+  before(async () => {
+    let server;
+    ({ close } = await createApp({
+      apiDir,
+      mode: 'test',
+      metrics: { processMetrics: false },
+      logging: { level: 'silent' },
+      onReady: (_app, created) => {
+        server = created;
+      },
+    }));
+    await new Promise((resolve) => server.listen(0, resolve));
+    url = `http://localhost:${server.address().port}`;
+  });
+  after(() => close());
+
+  /** Opens a connection to the echo route. */
+  const open = (options) =>
+    new Promise((resolve, reject) => {
+      const ws = new WebSocket(
+        `${url.replace('http', 'ws')}/api/echo`,
+        options
+      );
+      ws.once('open', () => resolve(ws));
+      ws.once('error', reject);
+    });
+
+  const closed = (ws) =>
+    new Promise((resolve) => ws.once('close', (code) => resolve(code)));
+
+  it('echoes messages', async () => {
+    const ws = await open();
+    ws.send('hello');
+    const [data] = await new Promise((resolve) =>
+      ws.once('message', (...args) => resolve(args))
+    );
+    assert.equal(data.toString(), 'hello');
+    ws.close();
+  });
+
+  it('closes with 1009 on messages over maxPayload', async () => {
+    const ws = await open();
+    ws.send('x'.repeat(17));
+    assert.equal(await closed(ws), 1009);
+  });
+
+  it('terminates peers that stop answering pings', async () => {
+    const ws = await open({ autoPong: false });
+    // Abnormal closure: the server dropped the connection
+    assert.equal(await closed(ws), 1006);
+  });
+
+  it('keeps peers that answer pings', async () => {
+    const ws = await open();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.equal(ws.readyState, WebSocket.OPEN);
+    ws.close();
+  });
+
+  it('records upgrades as 101 responses', async () => {
+    const ws = await open();
+    ws.close();
+    await closed(ws);
+
+    const metrics = await (await fetch(`${url}/metrics`)).text();
+    assert.match(
+      metrics,
+      /fastay_http_requests_total\{method="GET",route="\/api\/echo",status="1xx"\} \d+/
+    );
+  });
+});